@@ -1,13 +1,47 @@
 
-import React, { useState, useLayoutEffect } from 'react';
-import { UserProfile } from './types.ts';
+import React, { useState, useEffect, useLayoutEffect } from 'react';
+import { UserProfile, SavedTrip } from './types.ts';
 import Onboarding from './components/Onboarding.tsx';
 import Planner from './components/Planner.tsx';
+import TripLibrary from './components/TripLibrary.tsx';
+import { listTrips, loadProfile, saveProfile, saveTrip, createTripId } from './services/tripRepository.ts';
+import { readShareFragment, decodeSharedTrip, clearShareFragment } from './services/shareLink.ts';
 import { motion, AnimatePresence } from 'framer-motion';
 
 const App: React.FC = () => {
-  const [view, setView] = useState<'hero' | 'onboarding' | 'planner'>('hero');
+  const [view, setView] = useState<'hero' | 'onboarding' | 'planner' | 'library' | 'shared'>('hero');
   const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [activeTrip, setActiveTrip] = useState<SavedTrip | null>(null);
+  const [hasSavedTrips, setHasSavedTrips] = useState(false);
+  const [sharedTrip, setSharedTrip] = useState<SavedTrip | null>(null);
+
+  // Restore the last onboarding profile and check whether the library has anything to show
+  useEffect(() => {
+    loadProfile()
+      .then(saved => {
+        if (saved) setProfile(saved);
+      })
+      .catch(e => console.error("Failed to restore profile:", e));
+    listTrips()
+      .then(trips => setHasSavedTrips(trips.length > 0))
+      .catch(e => console.error("Failed to read saved trips:", e));
+  }, []);
+
+  // Opening a share link skips the hero and shows the trip read-only
+  useEffect(() => {
+    const encoded = readShareFragment();
+    if (!encoded) return;
+    decodeSharedTrip(encoded)
+      .then(trip => {
+        setSharedTrip(trip);
+        setView('shared');
+      })
+      .catch(e => {
+        console.error("Failed to open share link:", e);
+        clearShareFragment();
+        alert(e instanceof Error ? e.message : "This share link could not be opened.");
+      });
+  }, []);
 
   // Global scroll reset on major view changes
   useLayoutEffect(() => {
@@ -16,9 +50,38 @@ const App: React.FC = () => {
 
   const handleFinishOnboarding = (data: UserProfile) => {
     setProfile(data);
+    saveProfile(data).catch(e => console.error("Failed to persist profile:", e));
+    setActiveTrip(null);
+    setView('planner');
+  };
+
+  const handleOpenTrip = (trip: SavedTrip) => {
+    setActiveTrip(trip);
     setView('planner');
   };
 
+  const handleSaveSharedCopy = async () => {
+    if (!sharedTrip) return;
+    const now = Date.now();
+    const copy: SavedTrip = { ...sharedTrip, id: createTripId(), createdAt: now, updatedAt: now };
+    try {
+      await saveTrip(copy);
+      clearShareFragment();
+      setSharedTrip(null);
+      setHasSavedTrips(true);
+      setActiveTrip(copy);
+      setView('planner');
+    } catch (e) {
+      console.error("Failed to save shared trip:", e);
+      alert("Could not save this journal. Please try again.");
+    }
+  };
+
+  const handleNewTrip = () => {
+    setActiveTrip(null);
+    setView(profile ? 'planner' : 'onboarding');
+  };
+
   return (
     <div className="min-h-screen relative font-sans overflow-x-hidden">
       <AnimatePresence mode="wait">
@@ -73,6 +136,18 @@ const App: React.FC = () => {
               >
                 Begin Discovery
               </motion.button>
+
+              {hasSavedTrips && (
+                <motion.button
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ delay: 1.5 }}
+                  onClick={() => setView('library')}
+                  className="block mx-auto text-[10px] md:text-[11px] font-black uppercase tracking-[0.4em] text-morandi-forest/50 hover:text-morandi-forest transition-colors"
+                >
+                  Open Saved Journals
+                </motion.button>
+              )}
             </div>
           </motion.div>
         )}
@@ -83,9 +158,31 @@ const App: React.FC = () => {
           </motion.div>
         )}
 
-        {view === 'planner' && profile && (
-          <motion.div key="planner" initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
-            <Planner profile={profile} />
+        {view === 'library' && (
+          <motion.div key="library" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+            <TripLibrary onOpenTrip={handleOpenTrip} onNewTrip={handleNewTrip} />
+          </motion.div>
+        )}
+
+        {view === 'shared' && sharedTrip && (
+          <motion.div key={`shared-${sharedTrip.id}`} initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+            <Planner
+              profile={sharedTrip.profile}
+              initialTrip={sharedTrip}
+              onOpenLibrary={() => setView('library')}
+              readOnly
+              onSaveCopy={handleSaveSharedCopy}
+            />
+          </motion.div>
+        )}
+
+        {view === 'planner' && (activeTrip || profile) && (
+          <motion.div key={`planner-${activeTrip?.id ?? 'draft'}`} initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+            <Planner
+              profile={activeTrip?.profile ?? profile!}
+              initialTrip={activeTrip}
+              onOpenLibrary={() => setView('library')}
+            />
           </motion.div>
         )}
       </AnimatePresence>
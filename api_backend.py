@@ -1,38 +1,85 @@
 
-from fastapi import FastAPI, HTTPException, Query
-from pydantic import BaseModel
-from typing import List, Optional
+from fastapi import Depends, FastAPI, HTTPException, Query, Request, Response
+from fastapi.responses import StreamingResponse
+from pydantic import BaseModel, Field
+from typing import Optional
 import os
 import json
+import hashlib
+import sqlite3
+import threading
+import time
+from collections import deque
+from contextlib import closing
+import urllib.error
 import urllib.parse
 import urllib.request
 
 app = FastAPI()
 
-class UserProfile(BaseModel):
-    chronotype: str
-    pace: int
-    interests: List[str]
-    foodScale: float
-    foodTags: List[str]
-    budget: str
-
-class SafetyToggles(BaseModel):
-    filterShredder: bool
-    bbGuard: bool
-    noQueueMode: bool
-
-class TripConfig(BaseModel):
-    destination: str
-    startDate: str
-    endDate: str
-    passengers: int
-    safetyToggles: SafetyToggles
-    accommodation: str
-    transport: str
-    customNote: str
+# Generous for a long trip's prompt plus a repair round, far below what would make abuse cheap
+MAX_PROMPT_CHARS = 60_000
+MAX_MODEL_REQUEST_BYTES = 256 * 1024
+
+class LlmJsonRequest(BaseModel):
+    task: str = Field(..., max_length=64)
+    prompt: str = Field(..., max_length=MAX_PROMPT_CHARS)
+    systemInstruction: Optional[str] = Field(None, max_length=MAX_PROMPT_CHARS)
+    # Gemini-style schema (upper-case types, `propertyOrdering`)
+    responseSchema: Optional[dict] = None
+    temperature: Optional[float] = None
+
+class ImageGenerationRequest(BaseModel):
+    prompt: str = Field(..., max_length=4_000)
+    aspectRatio: str = "16:9"
+    # The place the image shows; when given, the image is cached by these
+    title: Optional[str] = Field(None, max_length=500)
+    visualPrompt: Optional[str] = Field(None, max_length=2_000)
 
 GOOGLE_PLACES_API_KEY = os.environ.get("GOOGLE_PLACES_API_KEY")
+GEMINI_API_KEY = os.environ.get("GEMINI_API_KEY")
+# "gemini" (default) or "openai" for any OpenAI-compatible server (vLLM, llama.cpp, Ollama, OpenAI)
+LLM_PROVIDER = "openai" if os.environ.get("LLM_PROVIDER") == "openai" else "gemini"
+LLM_BASE_URL = (os.environ.get("LLM_BASE_URL") or "http://localhost:11434/v1").rstrip("/")
+LLM_API_KEY = os.environ.get("LLM_API_KEY")
+GEMINI_API_URL = "https://generativelanguage.googleapis.com/v1beta/models"
+MODEL_TIMEOUT_S = 120
+# The dev server's proxy adds this token (vite.config.ts), so it never reaches the browser bundle
+MODEL_API_TOKEN = os.environ.get("MODEL_API_TOKEN")
+ALLOWED_ORIGINS = [
+    origin.strip()
+    for origin in (os.environ.get("ALLOWED_ORIGINS") or "http://localhost:3000,http://127.0.0.1:3000").split(",")
+    if origin.strip()
+]
+MODEL_RATE_LIMIT_PER_MINUTE = int(os.environ.get("MODEL_RATE_LIMIT_PER_MINUTE") or 30)
+
+DEFAULT_MODELS = {
+    "gemini": {
+        "feasibility": "gemini-3-flash-preview",
+        "generation": "gemini-3-flash-preview",
+        "risk": "gemini-3-flash-preview",
+        "image": "gemini-2.5-flash-image",
+    },
+    "openai": {
+        "feasibility": "gpt-4o-mini",
+        "generation": "gpt-4o-mini",
+        "risk": "gpt-4o-mini",
+        "image": "dall-e-3",
+    },
+}
+
+IMAGE_SIZES = {"1:1": "1024x1024", "16:9": "1792x1024", "9:16": "1024x1792"}
+
+CACHE_DB_PATH = os.environ.get("CACHE_DB_PATH") or os.path.join(os.path.dirname(os.path.abspath(__file__)), "cache.sqlite3")
+DAY_S = 24 * 60 * 60
+# Place ids barely change; opening hours do, so details expire sooner
+CACHE_TTL_S = {
+    "places_search": 30 * DAY_S,
+    "places_details": 7 * DAY_S,
+    "image": 90 * DAY_S,
+}
+# Expired rows are only skipped on read; writes sweep them out at most this often
+CACHE_PURGE_INTERVAL_S = 60 * 60
 
 def _safe_get(url: str, headers: Optional[dict] = None) -> dict:
     try:
@@ -44,26 +91,342 @@ def _safe_get(url: str, headers: Optional[dict] = None) -> dict:
         print(f"Request to {url} failed: {e}")
         raise HTTPException(status_code=502, detail=f"Upstream request failed: {e}")
 
-@app.post("/api/plan")
-async def create_plan(profile: UserProfile, config: TripConfig):
-    # This endpoint logic is handled in geminiService.ts for the React frontend
-    return {"message": "Plan generated successfully"}
+def _cache_connection() -> sqlite3.Connection:
+    # One connection per call: routes run on several threads
+    conn = sqlite3.connect(CACHE_DB_PATH)
+    conn.execute(
+        "CREATE TABLE IF NOT EXISTS cache ("
+        "namespace TEXT NOT NULL, key TEXT NOT NULL, value TEXT NOT NULL, expires_at REAL NOT NULL, "
+        "PRIMARY KEY (namespace, key))"
+    )
+    return conn
+
+def _cache_key(*parts: str) -> str:
+    normalized = "\u0000".join(" ".join(part.lower().split()) for part in parts)
+    return hashlib.sha256(normalized.encode("utf-8")).hexdigest()
+
+def _cache_get(namespace: str, key: str) -> Optional[str]:
+    """
+    Returns the cached value, or None when missing or expired (expired rows
+    are dropped on the way).
+    """
+    try:
+        with closing(_cache_connection()) as conn, conn:
+            row = conn.execute("SELECT value, expires_at FROM cache WHERE namespace = ? AND key = ?", (namespace, key)).fetchone()
+            if row and row[1] < time.time():
+                conn.execute("DELETE FROM cache WHERE namespace = ? AND key = ?", (namespace, key))
+                return None
+            return row[0] if row else None
+    except sqlite3.Error as e:
+        print(f"Cache read failed: {e}")
+        return None
+
+_last_cache_purge = 0.0
+
+def _cache_set(namespace: str, key: str, value: str) -> None:
+    global _last_cache_purge
+    now = time.time()
+    try:
+        with closing(_cache_connection()) as conn, conn:
+            conn.execute(
+                "INSERT OR REPLACE INTO cache (namespace, key, value, expires_at) VALUES (?, ?, ?, ?)",
+                (namespace, key, value, now + CACHE_TTL_S[namespace]),
+            )
+            if now - _last_cache_purge > CACHE_PURGE_INTERVAL_S:
+                _last_cache_purge = now
+                conn.execute("DELETE FROM cache WHERE expires_at < ?", (now,))
+    except sqlite3.Error as e:
+        print(f"Cache write failed: {e}")
+
+def _cached_places_get(namespace: str, key: str, url: str, response: Response) -> dict:
+    """
+    Places lookups through the cache, marked with `X-Cache: HIT` or `MISS`.
+    Only answers Google marks OK or ZERO_RESULTS are kept, never quota or
+    request errors.
+    """
+    cached = _cache_get(namespace, key)
+    if cached is not None:
+        response.headers["X-Cache"] = "HIT"
+        return json.loads(cached)
+    data = _safe_get(url)
+    if data.get("status") in ("OK", "ZERO_RESULTS"):
+        _cache_set(namespace, key, json.dumps(data))
+    response.headers["X-Cache"] = "MISS"
+    return data
+
+def _model_for_stage(stage: str) -> str:
+    """
+    `LLM_MODEL_<STAGE>` first, then `LLM_MODEL` for text stages, then the
+    provider's default.
+    """
+    override = os.environ.get(f"LLM_MODEL_{stage.upper()}")
+    if override:
+        return override
+    if stage != "image" and os.environ.get("LLM_MODEL"):
+        return os.environ["LLM_MODEL"]
+    return DEFAULT_MODELS[LLM_PROVIDER][stage]
+
+def _open_model_request(url: str, body: dict, headers: dict):
+    """
+    POSTs to the model API. 429 and 503 are passed through as-is so the
+    client's retry can back off; other upstream failures become 502.
+    """
+    req = urllib.request.Request(
+        url,
+        data=json.dumps(body).encode("utf-8"),
+        headers={"Content-Type": "application/json", **headers},
+        method="POST",
+    )
+    try:
+        return urllib.request.urlopen(req, timeout=MODEL_TIMEOUT_S)
+    except urllib.error.HTTPError as e:
+        detail = e.read().decode("utf-8", "replace")[:200]
+        print(f"Model request to {url} failed with {e.code}: {detail}")
+        raise HTTPException(status_code=e.code if e.code in (429, 503) else 502, detail=f"Model API returned {e.code}: {detail}")
+    except Exception as e:
+        print(f"Model request to {url} failed: {e}")
+        raise HTTPException(status_code=502, detail=f"Model request failed: {e}")
+
+def _gemini_headers() -> dict:
+    if not GEMINI_API_KEY:
+        raise HTTPException(status_code=500, detail="GEMINI_API_KEY is not configured.")
+    return {"x-goog-api-key": GEMINI_API_KEY}
+
+def _gemini_body(request: LlmJsonRequest) -> dict:
+    config = {"responseMimeType": "application/json"}
+    if request.responseSchema:
+        config["responseSchema"] = request.responseSchema
+    if request.temperature is not None:
+        config["temperature"] = request.temperature
+    body = {"contents": [{"role": "user", "parts": [{"text": request.prompt}]}], "generationConfig": config}
+    if request.systemInstruction:
+        body["systemInstruction"] = {"parts": [{"text": request.systemInstruction}]}
+    return body
+
+def _gemini_parts(payload: dict) -> list:
+    candidates = payload.get("candidates") or [{}]
+    return (candidates[0].get("content") or {}).get("parts") or []
+
+def _gemini_text(payload: dict) -> str:
+    return "".join(part.get("text", "") for part in _gemini_parts(payload))
+
+def _openai_headers() -> dict:
+    return {"Authorization": f"Bearer {LLM_API_KEY}"} if LLM_API_KEY else {}
+
+def _to_json_schema(schema: dict) -> dict:
+    """
+    Gemini schemas use upper-case type names and `propertyOrdering`; JSON
+    Schema wants lower-case types and has no ordering keyword.
+    """
+    result = {key: value for key, value in schema.items() if key not in ("type", "properties", "items", "propertyOrdering")}
+    if "type" in schema:
+        result["type"] = str(schema["type"]).lower()
+    if "properties" in schema:
+        result["properties"] = {key: _to_json_schema(value) for key, value in schema["properties"].items()}
+    if "items" in schema:
+        result["items"] = _to_json_schema(schema["items"])
+    return result
+
+def _openai_body(request: LlmJsonRequest, model: str, stream: bool) -> dict:
+    messages = [{"role": "system", "content": request.systemInstruction}] if request.systemInstruction else []
+    messages.append({"role": "user", "content": request.prompt})
+    body = {
+        "model": model,
+        "messages": messages,
+        "response_format": (
+            {"type": "json_schema", "json_schema": {"name": f"{request.task}_response", "schema": _to_json_schema(request.responseSchema)}}
+            if request.responseSchema
+            else {"type": "json_object"}
+        ),
+        "stream": stream,
+    }
+    if request.temperature is not None:
+        body["temperature"] = request.temperature
+    return body
+
+def _openai_choice(payload: dict) -> dict:
+    return (payload.get("choices") or [{}])[0]
+
+def _generate_json(stage: str, request: LlmJsonRequest) -> str:
+    model = _model_for_stage(stage)
+    if LLM_PROVIDER == "openai":
+        with _open_model_request(f"{LLM_BASE_URL}/chat/completions", _openai_body(request, model, False), _openai_headers()) as res:
+            payload = json.loads(res.read().decode("utf-8"))
+        return (_openai_choice(payload).get("message") or {}).get("content") or ""
+    with _open_model_request(f"{GEMINI_API_URL}/{model}:generateContent", _gemini_body(request), _gemini_headers()) as res:
+        return _gemini_text(json.loads(res.read().decode("utf-8")))
+
+def _stream_json(stage: str, request: LlmJsonRequest):
+    """
+    Opens the upstream stream before responding, so failures still reach the
+    client as a status code, then yields the text deltas of its events.
+    """
+    model = _model_for_stage(stage)
+    if LLM_PROVIDER == "openai":
+        res = _open_model_request(f"{LLM_BASE_URL}/chat/completions", _openai_body(request, model, True), _openai_headers())
+        extract = lambda payload: (_openai_choice(payload).get("delta") or {}).get("content") or ""
+    else:
+        res = _open_model_request(f"{GEMINI_API_URL}/{model}:streamGenerateContent?alt=sse", _gemini_body(request), _gemini_headers())
+        extract = _gemini_text
+
+    def deltas():
+        with res:
+            for raw_line in res:
+                line = raw_line.decode("utf-8").strip()
+                payload = line[len("data:"):].strip()
+                if not line.startswith("data:") or not payload or payload == "[DONE]":
+                    continue
+                delta = extract(json.loads(payload))
+                if delta:
+                    yield delta
+
+    return deltas()
+
+def _generate_image(request: ImageGenerationRequest) -> Optional[str]:
+    model = _model_for_stage("image")
+    if LLM_PROVIDER == "openai":
+        body = {
+            "model": model,
+            "prompt": request.prompt,
+            "size": IMAGE_SIZES.get(request.aspectRatio, IMAGE_SIZES["16:9"]),
+            "response_format": "b64_json",
+            "n": 1,
+        }
+        with _open_model_request(f"{LLM_BASE_URL}/images/generations", body, _openai_headers()) as res:
+            payload = json.loads(res.read().decode("utf-8"))
+        image = (payload.get("data") or [{}])[0].get("b64_json")
+        return f"data:image/png;base64,{image}" if image else None
+    body = {
+        "contents": [{"parts": [{"text": request.prompt}]}],
+        "generationConfig": {"imageConfig": {"aspectRatio": request.aspectRatio}},
+    }
+    with _open_model_request(f"{GEMINI_API_URL}/{model}:generateContent", body, _gemini_headers()) as res:
+        payload = json.loads(res.read().decode("utf-8"))
+    for part in _gemini_parts(payload):
+        inline = part.get("inlineData")
+        if inline and inline.get("data"):
+            return f"data:{inline.get('mimeType', 'image/png')};base64,{inline['data']}"
+    return None
+
+MODEL_RATE_WINDOW_S = 60
+_model_calls_by_client: dict = {}
+_model_calls_lock = threading.Lock()
+_last_rate_sweep = 0.0
+
+def _guard_model_route(http_request: Request) -> None:
+    """
+    Keeps the model key's quota to this app: token (when configured), origin,
+    body size and a per-client sliding-window rate limit.
+    """
+    if MODEL_API_TOKEN and http_request.headers.get("x-journalin-token") != MODEL_API_TOKEN:
+        raise HTTPException(status_code=401, detail="Missing or wrong model API token.")
+    origin = http_request.headers.get("origin")
+    if origin and origin not in ALLOWED_ORIGINS:
+        raise HTTPException(status_code=403, detail=f"Origin {origin} is not allowed.")
+    content_length = http_request.headers.get("content-length")
+    if content_length and content_length.isdigit() and int(content_length) > MAX_MODEL_REQUEST_BYTES:
+        raise HTTPException(status_code=413, detail="Request is too large.")
+
+    global _last_rate_sweep
+    client = http_request.client.host if http_request.client else "unknown"
+    now = time.monotonic()
+    with _model_calls_lock:
+        # Forget clients whose whole window has lapsed so the table doesn't grow with every address seen
+        if now - _last_rate_sweep > MODEL_RATE_WINDOW_S:
+            _last_rate_sweep = now
+            for idle in [key for key, seen in _model_calls_by_client.items() if not seen or now - seen[-1] > MODEL_RATE_WINDOW_S]:
+                del _model_calls_by_client[idle]
+        calls = _model_calls_by_client.setdefault(client, deque())
+        while calls and now - calls[0] > MODEL_RATE_WINDOW_S:
+            calls.popleft()
+        if len(calls) >= MODEL_RATE_LIMIT_PER_MINUTE:
+            raise HTTPException(status_code=429, detail="Too many model requests; try again in a minute.")
+        calls.append(now)
+
+# Routes are plain `def` so FastAPI runs the blocking upstream and SQLite calls in its threadpool
+@app.post("/api/feasibility", dependencies=[Depends(_guard_model_route)])
+def check_feasibility(request: LlmJsonRequest):
+    return {"text": _generate_json("feasibility", request)}
+
+@app.post("/api/plan", dependencies=[Depends(_guard_model_route)])
+def create_plan(request: LlmJsonRequest):
+    """
+    Generation stage: whole plans, single days, alternatives and edit
+    commands (named by `task`).
+    """
+    return {"text": _generate_json("generation", request)}
+
+@app.post("/api/plan/stream", dependencies=[Depends(_guard_model_route)])
+def stream_plan(request: LlmJsonRequest):
+    """
+    Same as /api/plan, streamed as plain text while the model writes.
+    """
+    return StreamingResponse(_stream_json("generation", request), media_type="text/plain; charset=utf-8")
+
+@app.post("/api/risk", dependencies=[Depends(_guard_model_route)])
+def analyze_risk(request: LlmJsonRequest):
+    return {"text": _generate_json("risk", request)}
+
+@app.post("/api/image", dependencies=[Depends(_guard_model_route)])
+def create_image(request: ImageGenerationRequest, response: Response):
+    """
+    Returns the image as a data URL, or null when the model drew none.
+    Images of a place (`title` + `visualPrompt`) are cached, so reopened
+    trips do not draw them again.
+    """
+    key = (
+        _cache_key(request.title, request.visualPrompt, request.aspectRatio, _model_for_stage("image"))
+        if request.title and request.visualPrompt is not None
+        else None
+    )
+    cached = _cache_get("image", key) if key else None
+    if cached is not None:
+        response.headers["X-Cache"] = "HIT"
+        return {"image": cached}
+    image = _generate_image(request)
+    if key and image:
+        _cache_set("image", key, image)
+    response.headers["X-Cache"] = "MISS"
+    return {"image": image}
 
 @app.get("/api/locations/search")
-async def search_locations(q: str = Query(..., min_length=2)):
+def search_locations(
+    q: str = Query(..., min_length=2),
+    poi: bool = False,
+    viewbox: Optional[str] = None,
+):
     """
     Proxies requests to Nominatim for location autocomplete.
+    With `poi`, searches any place instead of cities, limited to `viewbox`
+    (west,north,east,south) when given.
     Includes User-Agent header as required by OSM usage policy.
     """
     encoded_q = urllib.parse.quote(q)
-    url = f"https://nominatim.openstreetmap.org/search?format=json&q={encoded_q}&limit=5&featuretype=city,country&accept-language=en"
+    if poi:
+        url = f"https://nominatim.openstreetmap.org/search?format=json&q={encoded_q}&limit=3&accept-language=en"
+        if viewbox:
+            url += f"&viewbox={urllib.parse.quote(viewbox)}&bounded=1"
+    else:
+        url = f"https://nominatim.openstreetmap.org/search?format=json&q={encoded_q}&limit=5&featuretype=city,country&accept-language=en"
+    headers = {
+        "User-Agent": "JournalinTravelPlanner/1.0 (contact@example.com)"
+    }
+    return _safe_get(url, headers=headers)
+
+@app.get("/api/locations/reverse")
+def reverse_location(lat: float = Query(..., ge=-90, le=90), lng: float = Query(..., ge=-180, le=180)):
+    """
+    Proxies reverse geocoding to Nominatim for stops dropped on the map.
+    """
+    url = f"https://nominatim.openstreetmap.org/reverse?format=jsonv2&lat={lat}&lon={lng}&zoom=18&accept-language=en"
     headers = {
         "User-Agent": "JournalinTravelPlanner/1.0 (contact@example.com)"
     }
     return _safe_get(url, headers=headers)
 
 @app.get("/api/places/textsearch")
-async def places_textsearch(
+def places_textsearch(
+    response: Response,
     query: str = Query(..., min_length=1),
 ):
     if not GOOGLE_PLACES_API_KEY:
@@ -73,10 +436,11 @@ async def places_textsearch(
         "https://maps.googleapis.com/maps/api/place/textsearch/json"
         f"?query={encoded_query}&key={GOOGLE_PLACES_API_KEY}"
     )
-    return _safe_get(url)
+    return _cached_places_get("places_search", _cache_key(query), url, response)
 
 @app.get("/api/places/details")
-async def places_details(
+def places_details(
+    response: Response,
     place_id: str = Query(..., min_length=1),
     fields: str = Query("opening_hours,name", min_length=1),
 ):
@@ -88,8 +452,10 @@ async def places_details(
         "https://maps.googleapis.com/maps/api/place/details/json"
         f"?place_id={encoded_place_id}&fields={encoded_fields}&key={GOOGLE_PLACES_API_KEY}"
     )
-    return _safe_get(url)
+    # Place ids are case-sensitive, so they are not run through _cache_key
+    return _cached_places_get("places_details", f"{place_id}|{fields}", url, response)
 
 if __name__ == "__main__":
     import uvicorn
-    uvicorn.run(app, host="0.0.0.0", port=8000)
+    # Localhost only unless HOST says otherwise; the model routes spend the server's key
+    uvicorn.run(app, host=os.environ.get("HOST", "127.0.0.1"), port=8000)
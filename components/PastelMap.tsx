@@ -1,20 +1,142 @@
 
-import React, { useEffect, useRef } from 'react';
-import { ItineraryItem } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { DayPlan, ItineraryItem, TravelMode } from '../types';
 import { motion } from 'framer-motion';
+import { Loader2, MapPinPlus } from 'lucide-react';
+import { getLeg, getLegGeometry, refineDayLegs } from '../services/travelTime';
 
 declare const L: any;
 
 interface Props {
   destination: string;
   items: ItineraryItem[];
+  // When set, each leg is drawn along its routed path and colored by mode
+  travelMode?: TravelMode;
+  highlightedItemId?: string | null;
+  onHoverItem?: (itemId: string | null) => void;
+  // Trip overview: when given, every day is plotted in its own color and `items` is ignored
+  days?: DayPlan[];
+  // Editing (day view only): drop a stop on click, drag markers, open a stop in the schedule
+  onAddStop?: (location: { lat: number; lng: number }) => Promise<void>;
+  onMoveItem?: (itemId: string, location: { lat: number; lng: number }) => void;
+  onSelectItem?: (itemId: string) => void;
 }
 
-const PastelMap: React.FC<Props> = ({ destination, items }) => {
+const DAY_COLORS = ['#092F26', '#E47C58', '#6F8FA6', '#B58A62', '#7E9A8F', '#9A6F8E', '#C9A227', '#4F6D7A'];
+// Markers closer than this on screen are merged into one cluster
+const CLUSTER_RADIUS_PX = 36;
+
+const hasLocation = (item: ItineraryItem): item is ItineraryItem & { location: { lat: number; lng: number } } =>
+  typeof item.location?.lat === 'number' && typeof item.location?.lng === 'number' && (item.location.lat !== 0 || item.location.lng !== 0);
+
+const pinHtml = (label: string, color: string, size = 28) => `<div style="
+            background-color: ${color};
+            color: white;
+            width: ${size}px;
+            height: ${size}px;
+            border-radius: 50%;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            font-size: 11px;
+            font-weight: 800;
+            border: 3px solid white;
+            box-shadow: 0 4px 15px rgba(9, 47, 38, 0.2);
+          ">${label}</div>`;
+
+const LEG_COLORS: Record<TravelMode, string> = {
+  walk: '#7E9A8F',
+  transit: '#092F26',
+  drive: '#E47C58',
+  ride: '#B58A62'
+};
+
+const LEG_LABELS: Record<TravelMode, string> = {
+  walk: 'Walk',
+  transit: 'Transit',
+  drive: 'Drive',
+  ride: 'Ride'
+};
+
+/**
+ * Popup body built from DOM nodes: titles and descriptions can come from a
+ * share link, so they are only ever set as text.
+ */
+const popupContent = (label: string, title: string, description?: string, onEdit?: () => void) => {
+  const root = document.createElement('div');
+  root.style.cssText = 'padding: 8px; min-width: 150px;';
+  const labelEl = document.createElement('span');
+  labelEl.style.cssText = 'font-size: 10px; font-weight: 800; text-transform: uppercase; color: #E47C58; letter-spacing: 0.1em; display: block; margin-bottom: 4px;';
+  labelEl.textContent = label;
+  const titleEl = document.createElement('h3');
+  titleEl.style.cssText = `margin: 0${description !== undefined ? ' 0 4px 0' : ''}; font-size: 15px; font-weight: 700; color: #092F26;`;
+  titleEl.textContent = title;
+  root.append(labelEl, titleEl);
+  if (description !== undefined) {
+    const descriptionEl = document.createElement('p');
+    descriptionEl.style.cssText = 'margin: 0; font-size: 12px; line-height: 1.4; color: #666;';
+    descriptionEl.textContent = description;
+    root.append(descriptionEl);
+  }
+  if (onEdit) {
+    const button = document.createElement('button');
+    button.style.cssText = 'margin-top: 8px; padding: 4px 12px; border-radius: 999px; background: #092F26; color: white; font-size: 10px; font-weight: 800; text-transform: uppercase; letter-spacing: 0.1em; border: none; cursor: pointer;';
+    button.textContent = 'Edit in schedule';
+    button.addEventListener('click', onEdit);
+    root.append(button);
+  }
+  return root;
+};
+
+const markerHtml = (index: number, highlighted: boolean) => `<div style="
+            background-color: ${highlighted ? '#E47C58' : '#092F26'};
+            color: white;
+            width: 32px;
+            height: 32px;
+            border-radius: 50%;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            font-size: 12px;
+            font-weight: 800;
+            border: 3px solid white;
+            box-shadow: 0 4px 15px rgba(9, 47, 38, 0.2);
+            transform: scale(${highlighted ? 1.25 : 1});
+            transition: transform 0.2s;
+          ">${index + 1}</div>`;
+
+interface ItemLayers {
+  marker: any;
+  index: number;
+  leg?: any;
+  legStyle?: any;
+}
+
+const PastelMap: React.FC<Props> = ({ destination, items, travelMode, highlightedItemId = null, onHoverItem, days, onAddStop, onMoveItem, onSelectItem }) => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<any>(null);
   const markerGroupRef = useRef<any>(null);
-  const polylineRef = useRef<any>(null);
+  const legGroupRef = useRef<any>(null);
+  // Marker and incoming leg per item id, restyled on hover without redrawing
+  const layersByItemRef = useRef<Record<string, ItemLayers>>({});
+  const lastFitKeyRef = useRef('');
+  const onHoverItemRef = useRef(onHoverItem);
+  onHoverItemRef.current = onHoverItem;
+  const onAddStopRef = useRef(onAddStop);
+  onAddStopRef.current = onAddStop;
+  const onMoveItemRef = useRef(onMoveItem);
+  onMoveItemRef.current = onMoveItem;
+  const onSelectItemRef = useRef(onSelectItem);
+  onSelectItemRef.current = onSelectItem;
+  const [isAddingStop, setIsAddingStop] = useState(false);
+  const [isPlacingStop, setIsPlacingStop] = useState(false);
+  const isAddingStopRef = useRef(false);
+  isAddingStopRef.current = isAddingStop;
+  const canEdit = !days && !!onMoveItem;
+  const [routeRevision, setRouteRevision] = useState(0);
+  const [hiddenDates, setHiddenDates] = useState<string[]>([]);
+  // Overview clusters depend on screen distance, so they are rebuilt per zoom level
+  const [zoom, setZoom] = useState(2);
 
   useEffect(() => {
     if (!mapContainerRef.current || mapInstanceRef.current) return;
@@ -27,9 +149,20 @@ const PastelMap: React.FC<Props> = ({ destination, items }) => {
 
     L.tileLayer('https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png', {
       maxZoom: 19,
+      // CORS tiles can be cached at their real size; opaque ones are padded against storage quota
+      crossOrigin: true,
     }).addTo(mapInstanceRef.current);
 
+    legGroupRef.current = L.featureGroup().addTo(mapInstanceRef.current);
     markerGroupRef.current = L.featureGroup().addTo(mapInstanceRef.current);
+    mapInstanceRef.current.on('zoomend', () => setZoom(mapInstanceRef.current.getZoom()));
+    mapInstanceRef.current.on('click', (e: any) => {
+      if (!isAddingStopRef.current || !onAddStopRef.current) return;
+      setIsAddingStop(false);
+      setIsPlacingStop(true);
+      onAddStopRef.current({ lat: e.latlng.lat, lng: e.latlng.lng })
+        .finally(() => setIsPlacingStop(false));
+    });
 
     return () => {
       if (mapInstanceRef.current) {
@@ -39,16 +172,27 @@ const PastelMap: React.FC<Props> = ({ destination, items }) => {
     };
   }, []);
 
+  // Routed legs arrive asynchronously; redraw once they are cached
   useEffect(() => {
-    if (!mapInstanceRef.current || !markerGroupRef.current) return;
+    if (!travelMode) return;
+    let cancelled = false;
+    refineDayLegs(items, travelMode).then(added => {
+      if (!cancelled && added > 0) setRouteRevision(prev => prev + 1);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [items, travelMode]);
+
+  useEffect(() => {
+    if (!mapInstanceRef.current || !markerGroupRef.current || days) return;
 
     markerGroupRef.current.clearLayers();
-    if (polylineRef.current) {
-      polylineRef.current.remove();
-      polylineRef.current = null;
-    }
+    legGroupRef.current.clearLayers();
+    layersByItemRef.current = {};
 
     const coords: any[] = [];
+    let previous: ItineraryItem | null = null;
 
     items.forEach((item, index) => {
       // Improved check: Allow 0 as valid coordinate, but exclude undefined/null
@@ -57,50 +201,67 @@ const PastelMap: React.FC<Props> = ({ destination, items }) => {
       
       if (typeof lat === 'number' && typeof lng === 'number' && (lat !== 0 || lng !== 0)) {
         const point = [lat, lng];
-        coords.push(point);
-
         const customIcon = L.divIcon({
           className: 'custom-div-icon',
-          html: `<div style="
-            background-color: #092F26;
-            color: white;
-            width: 32px;
-            height: 32px;
-            border-radius: 50%;
-            display: flex;
-            align-items: center;
-            justify-content: center;
-            font-size: 12px;
-            font-weight: 800;
-            border: 3px solid white;
-            box-shadow: 0 4px 15px rgba(9, 47, 38, 0.2);
-          ">${index + 1}</div>`,
+          html: markerHtml(index, false),
           iconSize: [32, 32],
           iconAnchor: [16, 16],
         });
 
-        const marker = L.marker(point, { icon: customIcon })
-          .bindPopup(`
-            <div style="padding: 8px; min-width: 150px;">
-              <span style="font-size: 10px; font-weight: 800; text-transform: uppercase; color: #E47C58; letter-spacing: 0.1em; display: block; margin-bottom: 4px;">${item.time}</span>
-              <h3 style="margin: 0 0 4px 0; font-size: 15px; font-weight: 700; color: #092F26;">${item.title}</h3>
-              <p style="margin: 0; font-size: 12px; line-height: 1.4; color: #666;">${item.description}</p>
-            </div>
-          `, { closeButton: false });
-        
+        const marker = L.marker(point, { icon: customIcon, draggable: canEdit })
+          .bindPopup(popupContent(
+            item.time,
+            item.title,
+            item.description,
+            onSelectItem ? () => onSelectItemRef.current?.(item.id) : undefined
+          ), { closeButton: false });
+        marker.on('mouseover', () => onHoverItemRef.current?.(item.id));
+        marker.on('mouseout', () => onHoverItemRef.current?.(null));
+        if (canEdit) {
+          marker.on('dragend', () => {
+            const { lat: newLat, lng: newLng } = marker.getLatLng();
+            onMoveItemRef.current?.(item.id, { lat: newLat, lng: newLng });
+          });
+        }
         markerGroupRef.current.addLayer(marker);
+        layersByItemRef.current[item.id] = { marker, index };
+
+        if (previous?.location) {
+          const leg = travelMode ? getLeg(previous, item, travelMode) : null;
+          const geometry = travelMode ? getLegGeometry(previous, item, travelMode) : null;
+          const path = geometry ?? [[previous.location.lat, previous.location.lng], point];
+          // Routed legs are solid; straight-line estimates (or no mode) stay dashed
+          const legStyle = {
+            color: leg ? LEG_COLORS[leg.mode] : '#092F26',
+            weight: leg ? 4 : 3,
+            opacity: leg ? 0.55 : 0.15,
+            dashArray: geometry ? undefined : '8, 12',
+            lineCap: 'round'
+          };
+          const polyline = L.polyline(path, legStyle);
+          if (leg) {
+            polyline.bindTooltip(`${leg.source === 'estimate' ? '~' : ''}${leg.minutes} min`, {
+              permanent: true,
+              direction: 'center',
+              className: 'leg-duration-label'
+            });
+          }
+          polyline.on('mouseover', () => onHoverItemRef.current?.(item.id));
+          polyline.on('mouseout', () => onHoverItemRef.current?.(null));
+          legGroupRef.current.addLayer(polyline);
+          layersByItemRef.current[item.id].leg = polyline;
+          layersByItemRef.current[item.id].legStyle = legStyle;
+        }
+
+        coords.push(point);
+        previous = item;
       }
     });
 
-    if (coords.length > 1) {
-      polylineRef.current = L.polyline(coords, {
-        color: '#092F26',
-        weight: 3,
-        opacity: 0.15,
-        dashArray: '8, 12',
-        lineCap: 'round'
-      }).addTo(mapInstanceRef.current);
-    }
+    // Only reframe when the stops change, not when routed paths arrive
+    const fitKey = `day|${destination}|${items.map(item => item.id).join(',')}`;
+    if (fitKey === lastFitKeyRef.current) return;
+    lastFitKeyRef.current = fitKey;
 
     if (coords.length > 0) {
       mapInstanceRef.current.fitBounds(markerGroupRef.current.getBounds(), {
@@ -123,10 +284,118 @@ const PastelMap: React.FC<Props> = ({ destination, items }) => {
         })
         .catch(err => console.error("Geocoding fallback failed", err));
     }
-  }, [items, destination]);
+  }, [items, destination, travelMode, routeRevision, days, canEdit, !!onSelectItem]);
+
+  // Trip overview: one colored route per day, hotels drawn once, nearby stops clustered
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !markerGroupRef.current || !days) return;
+
+    markerGroupRef.current.clearLayers();
+    legGroupRef.current.clearLayers();
+    layersByItemRef.current = {};
+
+    const hotels = new Map<string, { item: ItineraryItem; dayNumbers: number[] }>();
+    const stops: { item: ItineraryItem; dayIdx: number; index: number; latLng: [number, number] }[] = [];
+
+    days.forEach((day, dayIdx) => {
+      if (hiddenDates.includes(day.date)) return;
+      const located = day.items.filter(hasLocation);
+      if (located.length > 1) {
+        legGroupRef.current.addLayer(L.polyline(located.map(item => [item.location.lat, item.location.lng]), {
+          color: DAY_COLORS[dayIdx % DAY_COLORS.length],
+          weight: 3,
+          opacity: 0.6,
+          lineCap: 'round'
+        }));
+      }
+      located.forEach((item, index) => {
+        if (item.type === 'hotel') {
+          // The same hotel across nights is one anchor, not a marker per day
+          const key = `${item.location.lat.toFixed(4)},${item.location.lng.toFixed(4)}`;
+          const entry = hotels.get(key) ?? { item, dayNumbers: [] };
+          if (!entry.dayNumbers.includes(dayIdx + 1)) entry.dayNumbers.push(dayIdx + 1);
+          hotels.set(key, entry);
+          return;
+        }
+        stops.push({ item, dayIdx, index, latLng: [item.location.lat, item.location.lng] });
+      });
+    });
+
+    const clusters: { members: typeof stops; pixel: any }[] = [];
+    stops.forEach(stop => {
+      const pixel = map.latLngToLayerPoint(stop.latLng);
+      const cluster = clusters.find(candidate => candidate.pixel.distanceTo(pixel) < CLUSTER_RADIUS_PX);
+      if (cluster) cluster.members.push(stop);
+      else clusters.push({ members: [stop], pixel });
+    });
+
+    clusters.forEach(({ members }) => {
+      if (members.length === 1) {
+        const { item, dayIdx, index, latLng } = members[0];
+        const marker = L.marker(latLng, {
+          icon: L.divIcon({ className: 'custom-div-icon', html: pinHtml(String(index + 1), DAY_COLORS[dayIdx % DAY_COLORS.length]), iconSize: [28, 28], iconAnchor: [14, 14] })
+        }).bindPopup(popupContent(`Day ${dayIdx + 1} · ${item.time}`, item.title), { closeButton: false });
+        markerGroupRef.current.addLayer(marker);
+        return;
+      }
+      const bounds = L.latLngBounds(members.map(member => member.latLng));
+      const dayNumbers = Array.from(new Set(members.map(member => member.dayIdx + 1))).sort((a, b) => a - b);
+      const color = dayNumbers.length === 1 ? DAY_COLORS[(dayNumbers[0] - 1) % DAY_COLORS.length] : '#A9BCC2';
+      const marker = L.marker(bounds.getCenter(), {
+        icon: L.divIcon({ className: 'custom-div-icon', html: pinHtml(String(members.length), color, 38), iconSize: [38, 38], iconAnchor: [19, 19] })
+      }).bindTooltip(`${members.length} stops · Day ${dayNumbers.join(', ')}`, { direction: 'top' });
+      marker.on('click', () => map.fitBounds(bounds, { padding: [60, 60], maxZoom: 17 }));
+      markerGroupRef.current.addLayer(marker);
+    });
+
+    hotels.forEach(({ item, dayNumbers }) => {
+      const marker = L.marker([item.location!.lat, item.location!.lng], {
+        icon: L.divIcon({ className: 'custom-div-icon', html: pinHtml('H', '#092F26', 36), iconSize: [36, 36], iconAnchor: [18, 18] }),
+        zIndexOffset: 1000
+      }).bindPopup(popupContent(`Base · Day ${dayNumbers.join(', ')}`, item.title), { closeButton: false });
+      markerGroupRef.current.addLayer(marker);
+    });
+
+    const fitKey = `trip|${destination}|${days.map(day => day.date).join(',')}`;
+    if (fitKey === lastFitKeyRef.current || markerGroupRef.current.getLayers().length === 0) return;
+    lastFitKeyRef.current = fitKey;
+    map.fitBounds(markerGroupRef.current.getBounds(), { padding: [80, 80], maxZoom: 14, animate: true, duration: 1.5 });
+  }, [days, hiddenDates, zoom, destination]);
+
+  const toggleDay = (date: string) =>
+    setHiddenDates(prev => prev.includes(date) ? prev.filter(d => d !== date) : [...prev, date]);
+
+  useEffect(() => {
+    const layers: [string, ItemLayers][] = Object.entries(layersByItemRef.current);
+    layers.forEach(([itemId, { marker, index, leg, legStyle }]) => {
+      const highlighted = itemId === highlightedItemId;
+      marker.setIcon(L.divIcon({
+        className: 'custom-div-icon',
+        html: markerHtml(index, highlighted),
+        iconSize: [32, 32],
+        iconAnchor: [16, 16],
+      }));
+      marker.setZIndexOffset(highlighted ? 1000 : 0);
+      if (leg && legStyle) {
+        leg.setStyle(highlighted ? { ...legStyle, weight: legStyle.weight + 3, opacity: 0.9 } : legStyle);
+        if (highlighted) leg.bringToFront();
+      }
+    });
+  }, [highlightedItemId, items, travelMode, routeRevision]);
+
+  // Stops without coordinates cannot be drawn; say so instead of dropping them silently
+  const unplacedCount = items.filter(item => !hasLocation(item)).length;
+
+  const legendModes: TravelMode[] = travelMode
+    ? Array.from(new Set(items.slice(1).flatMap((item, idx) => {
+        const leg = getLeg(items[idx], item, travelMode);
+        return leg ? [leg.mode] : [];
+      })))
+    : [];
 
   return (
-    <div className="absolute inset-0 w-full h-full bg-morandi-mist overflow-hidden flex flex-col">
+    <div className={`absolute inset-0 w-full h-full bg-morandi-mist overflow-hidden flex flex-col ${isAddingStop ? 'map-adding-stop' : ''}`}>
       <div ref={mapContainerRef} className="flex-1 w-full h-full z-0" />
       
       <div className="absolute top-8 left-8 z-10 pointer-events-none">
@@ -138,11 +407,60 @@ const PastelMap: React.FC<Props> = ({ destination, items }) => {
         >
           <div className="w-2.5 h-2.5 bg-morandi-sunset rounded-full animate-pulse shadow-[0_0_10px_rgba(228,124,88,0.5)]" />
           <span className="text-[11px] font-black uppercase tracking-[0.2em] text-morandi-forest/60">
-            {items.length > 0 ? `Tracking ${items.length} Points` : 'Exploring Region'}
+            {days
+              ? `${days.length} Days · ${days.reduce((sum, day) => sum + day.items.length, 0)} Points`
+              : items.length > 0 ? `Tracking ${items.length} Points` : 'Exploring Region'}
+            {!days && unplacedCount > 0 && ` · ${unplacedCount} Unplaced`}
           </span>
         </motion.div>
+        {!days && legendModes.length > 0 && (
+          <div className="mt-3 bg-white/90 backdrop-blur-xl px-5 py-2.5 rounded-full border border-morandi-sage/30 shadow-xl flex items-center gap-4">
+            {legendModes.map(mode => (
+              <span key={mode} className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-[0.15em] text-morandi-forest/60">
+                <span className="w-4 h-1 rounded-full" style={{ backgroundColor: LEG_COLORS[mode] }} />
+                {LEG_LABELS[mode]}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
 
+      {!days && onAddStop && (
+        <div className="absolute bottom-8 left-8 z-10 flex items-center gap-3">
+          <button
+            onClick={() => setIsAddingStop(prev => !prev)}
+            disabled={isPlacingStop}
+            className={`flex items-center gap-2 px-5 py-3 rounded-full border shadow-xl text-[10px] font-black uppercase tracking-[0.2em] transition-all disabled:opacity-60 ${isAddingStop ? 'bg-morandi-sunset text-white border-morandi-sunset' : 'bg-white/90 backdrop-blur-xl text-morandi-forest/70 border-morandi-sage/30 hover:text-morandi-forest'}`}
+          >
+            {isPlacingStop ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <MapPinPlus className="w-3.5 h-3.5" />}
+            {isPlacingStop ? 'Looking up place' : isAddingStop ? 'Cancel' : 'Add stop'}
+          </button>
+          {isAddingStop && (
+            <span className="bg-white/90 backdrop-blur-xl px-4 py-2 rounded-full text-[10px] font-bold text-morandi-forest/60 shadow-md">
+              Click the map to drop a stop
+            </span>
+          )}
+        </div>
+      )}
+
+      {days && days.length > 0 && (
+        <div className="absolute bottom-8 left-8 z-10 bg-white/90 backdrop-blur-xl p-3 rounded-3xl border border-morandi-sage/30 shadow-xl flex flex-wrap gap-2 max-w-[calc(100%-4rem)]">
+          {days.map((day, dayIdx) => {
+            const hidden = hiddenDates.includes(day.date);
+            return (
+              <button
+                key={day.date}
+                onClick={() => toggleDay(day.date)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-[0.15em] transition-all ${hidden ? 'text-morandi-forest/30 bg-transparent' : 'text-morandi-forest/70 bg-white shadow-sm'}`}
+              >
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: DAY_COLORS[dayIdx % DAY_COLORS.length], opacity: hidden ? 0.3 : 1 }} />
+                Day {dayIdx + 1}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       <div className="absolute left-0 top-0 bottom-0 w-px bg-morandi-forest/5 z-10" />
       <div className="absolute right-0 top-0 bottom-0 w-px bg-morandi-forest/5 z-10" />
     </div>
@@ -1,7 +1,28 @@
 
 import React, { useState, useMemo, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
-import { UserProfile, TripConfig, DayPlan, ItineraryItem, InquiryResult, InquiryQuestion, SurvivalKit as SurvivalKitType, ItineraryRiskItem } from '../types.ts';
-import { generatePlan, generateMoodImage, generatePlaceImage, checkPlanFeasibility, analyzeItineraryRisks } from '../services/geminiService.ts';
+import { UserProfile, TripConfig, DayPlan, ItineraryItem, InquiryResult, InquiryQuestion, SurvivalKit as SurvivalKitType, ItineraryRiskItem, SavedTrip, ImportedBooking } from '../types.ts';
+import { generatePlan, generateMoodImage, generatePlaceImage, checkPlanFeasibility, analyzeItineraryRisks, regenerateDay, suggestAlternatives, interpretEditCommand, PlanStreamProgress } from '../services/geminiService.ts';
+import { applyEditOperations, parseEditCommandLocally, EditCommandInterpretation, EditOperationsResult } from '../services/editOperations.ts';
+import { createTripId, saveTrip } from '../services/tripRepository.ts';
+import { downloadIcsCalendar } from '../services/icsExporter.ts';
+import { buildBookingConstraints, localizeBookings, mergeBookingsIntoPlan } from '../services/bookingImporter.ts';
+import { downloadJournalPdf, hasUnsupportedPdfText, JournalExportData } from '../services/journalExport.ts';
+import { buildShareUrl } from '../services/shareLink.ts';
+import { travelModeForTransport, hasRoutingProvider, refineDayLegs } from '../services/travelTime.ts';
+import { optimizeDayOrder } from '../services/routeOptimizer.ts';
+import { saveTripMapOffline } from '../services/offline.ts';
+import { reverseGeocode } from '../services/geocoding.ts';
+import { validatePlanLocations, applyLocationChecks } from '../services/locationValidation.ts';
+import {
+  DEFAULT_DAY_START,
+  TRAVEL_BUFFER_MINUTES,
+  parseTimeToMinutes,
+  formatMinutesToTime,
+  parseDurationMinutes,
+  formatDuration,
+  buildTimelineSignature,
+  calculateTimeline
+} from '../services/timeline.ts';
 import LoadingOverlay from './LoadingOverlay.tsx';
 import SurvivalKit from './SurvivalKit.tsx';
 import PastelMap from './PastelMap.tsx';
@@ -9,81 +30,18 @@ import InquiryModal from './planner/InquiryModal.tsx';
 import ConflictModal from './planner/ConflictModal.tsx';
 import ScheduleView from './planner/ScheduleView.tsx';
 import MapView from './planner/MapView.tsx';
+import HistoryPanel from './planner/HistoryPanel.tsx';
+import BookingImport from './planner/BookingImport.tsx';
+import PrintJournal from './planner/PrintJournal.tsx';
+import DraftProgress from './planner/DraftProgress.tsx';
+import RegenerateDayModal from './planner/RegenerateDayModal.tsx';
+import AlternativesModal from './planner/AlternativesModal.tsx';
+import ChangesImpactModal, { ScheduleChange } from './planner/ChangesImpactModal.tsx';
+import { useEditHistory, PlanSnapshot } from './planner/useEditHistory.ts';
 import { motion, AnimatePresence, Reorder } from 'framer-motion';
-import { ShieldAlert, StarHalf, Clock, Home, Building, Sparkles, Train, Car, Navigation, DollarSign, Timer, MapPin, GripVertical, BookOpen, Compass, Footprints, Trash2, Search, Loader2, CalendarClock, Plus } from 'lucide-react';
-
-const DEFAULT_DAY_START = '09:00';
-const TRAVEL_BUFFER_MINUTES = 15;
-
-const parseTimeToMinutes = (rawTime?: string | null) => {
-  if (!rawTime) return null;
-  const cleaned = rawTime.trim().toLowerCase();
-  const match = cleaned.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
-  if (!match) return null;
-  let hours = parseInt(match[1], 10);
-  const minutes = match[2] ? parseInt(match[2], 10) : 0;
-  const meridiem = match[3];
-  if (meridiem) {
-    if (meridiem === 'pm' && hours < 12) hours += 12;
-    if (meridiem === 'am' && hours === 12) hours = 0;
-  }
-  if (hours > 23 || minutes > 59) return null;
-  return hours * 60 + minutes;
-};
-
-const formatMinutesToTime = (totalMinutes: number) => {
-  const normalized = ((totalMinutes % (24 * 60)) + (24 * 60)) % (24 * 60);
-  const hours = Math.floor(normalized / 60);
-  const minutes = normalized % 60;
-  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
-};
-
-const parseDurationMinutes = (raw?: string | null) => {
-  if (!raw) return null;
-  const cleaned = raw.toLowerCase();
-  const hourMatch = cleaned.match(/(\d+)\s*(h|hr|hrs|hour|hours|小时)/);
-  const minMatch = cleaned.match(/(\d+)\s*(m|min|mins|minute|minutes|分钟)/);
-  if (hourMatch) {
-    const hours = parseInt(hourMatch[1], 10);
-    const minutes = minMatch ? parseInt(minMatch[1], 10) : 0;
-    return hours * 60 + minutes;
-  }
-  if (minMatch) {
-    return parseInt(minMatch[1], 10);
-  }
-  const fallbackNumber = cleaned.match(/(\d+)/);
-  return fallbackNumber ? parseInt(fallbackNumber[1], 10) : null;
-};
-
-const formatDuration = (minutes: number) => `${minutes} min`;
-
-const buildTimelineSignature = (items: ItineraryItem[]) =>
-  items
-    .map(item => `${item.id}-${item.startTime || item.time}-${item.duration}`)
-    .join('|');
-
-const calculateTimeline = (items: ItineraryItem[], dayStartTime: string) => {
-  const startMinutes = parseTimeToMinutes(dayStartTime) ?? parseTimeToMinutes(DEFAULT_DAY_START) ?? 9 * 60;
-  let cursor = startMinutes;
-  const updatedItems = items.map((item, idx) => {
-    const durationMinutes = parseDurationMinutes(item.duration) ?? 60;
-    const startTime = formatMinutesToTime(cursor);
-    const endTime = formatMinutesToTime(cursor + durationMinutes);
-    const closeMinutes = parseTimeToMinutes(item.closeTime);
-    const conflict = closeMinutes !== null && cursor + durationMinutes > closeMinutes;
-    cursor = cursor + durationMinutes + (idx === items.length - 1 ? 0 : TRAVEL_BUFFER_MINUTES);
-    return {
-      ...item,
-      startTime,
-      endTime,
-      time: startTime,
-      durationMinutes,
-      conflict
-    };
-  });
-  const conflicts = updatedItems.filter(item => item.conflict).map(item => item.id);
-  return { items: updatedItems, conflicts };
-};
+import { ShieldAlert, StarHalf, Clock, Home, Building, Sparkles, Train, Car, Navigation, DollarSign, Timer, MapPin, GripVertical, BookOpen, Compass, Footprints, Trash2, Search, Loader2, CalendarClock, Plus, Library, CalendarPlus, Printer, FileDown, Link2, BookmarkPlus, Eye, RefreshCw, Shuffle, Route, CloudDownload, WifiOff } from 'lucide-react';
+
+const AUTOSAVE_DELAY_MS = 800;
 
 const createEmptyItem = () => ({
   id: `item-${Date.now()}-${Math.random().toString(16).slice(2)}`,
@@ -178,12 +136,27 @@ const PlaceThumbnail = React.memo(({
   );
 });
 
+interface PendingRiskReview {
+  date: string;
+  dayStart: string;
+  previousDayStart: string;
+  items: ItineraryItem[];
+  previousPlanSnapshot: DayPlan[];
+  conflicts: string[];
+  signature: string;
+}
+
 interface PlannerProps {
   profile: UserProfile;
+  initialTrip?: SavedTrip | null;
+  onOpenLibrary: () => void;
+  // Trips opened from a share link: viewable and exportable, but never edited or autosaved
+  readOnly?: boolean;
+  onSaveCopy?: () => void;
 }
 
-export default function Planner({ profile }: PlannerProps) {
-  const [config, setConfig] = useState<TripConfig>({
+export default function Planner({ profile, initialTrip, onOpenLibrary, readOnly = false, onSaveCopy }: PlannerProps) {
+  const [config, setConfig] = useState<TripConfig>(initialTrip?.config ?? {
     destination: '',
     startDate: new Date().toISOString().split('T')[0],
     endDate: new Date(Date.now() + 4 * 86400000).toISOString().split('T')[0],
@@ -199,14 +172,19 @@ export default function Planner({ profile }: PlannerProps) {
   });
   
   const [loading, setLoading] = useState(false);
-  const [plan, setPlan] = useState<DayPlan[] | null>(null);
-  const [summary, setSummary] = useState('');
-  const [survivalKit, setSurvivalKit] = useState<SurvivalKitType | null>(null);
-  const [moodImage, setMoodImage] = useState<string | null>(null);
-  const [activeDate, setActiveDate] = useState<string | null>(null);
-  const [isSetupView, setIsSetupView] = useState(true);
+  const [plan, setPlan] = useState<DayPlan[] | null>(initialTrip?.result.itinerary ?? null);
+  const [summary, setSummary] = useState(initialTrip?.result.summary ?? '');
+  const [timeZone, setTimeZone] = useState<string | undefined>(initialTrip?.result.timeZone);
+  const [survivalKit, setSurvivalKit] = useState<SurvivalKitType | null>(initialTrip?.result.survivalKit ?? null);
+  const [moodImage, setMoodImage] = useState<string | null>(initialTrip?.moodImage ?? null);
+  const [activeDate, setActiveDate] = useState<string | null>(initialTrip?.result.itinerary[0]?.date ?? null);
+  const [isSetupView, setIsSetupView] = useState(!initialTrip);
   const [activeView, setActiveView] = useState<'journal' | 'survival' | 'map' | 'schedule'>('journal');
-  const [dayStartTimes, setDayStartTimes] = useState<Record<string, string>>({});
+  const [dayStartTimes, setDayStartTimes] = useState<Record<string, string>>(initialTrip?.dayStartTimes ?? {});
+  const [tripMeta, setTripMeta] = useState<{ id: string; name: string; createdAt: number } | null>(
+    initialTrip ? { id: initialTrip.id, name: initialTrip.name, createdAt: initialTrip.createdAt } : null
+  );
+  const autosaveTimeoutRef = useRef<number | null>(null);
   const [conflictModal, setConflictModal] = useState<{
     date: string;
     conflicts: string[];
@@ -217,6 +195,9 @@ export default function Planner({ profile }: PlannerProps) {
   } | null>(null);
   const [magicCommand, setMagicCommand] = useState('');
   const [magicFeedback, setMagicFeedback] = useState<string | null>(null);
+  const [isInterpretingCommand, setIsInterpretingCommand] = useState(false);
+  const [routePreview, setRoutePreview] = useState<{ date: string; label: string; items: ItineraryItem[]; improved: boolean; changes: ScheduleChange[] } | null>(null);
+  const [magicPreview, setMagicPreview] = useState<{ command: string; operations: string[]; changes: ScheduleChange[]; result: EditOperationsResult } | null>(null);
   const [editingTitleId, setEditingTitleId] = useState<string | null>(null);
   const [editingTitleValue, setEditingTitleValue] = useState('');
   const [editingDurationId, setEditingDurationId] = useState<string | null>(null);
@@ -224,21 +205,39 @@ export default function Planner({ profile }: PlannerProps) {
   const [isRiskAnalyzing, setIsRiskAnalyzing] = useState(false);
   const riskDebounceRef = useRef<number | null>(null);
   const riskRequestIdRef = useRef(0);
-  const [pendingRiskReview, setPendingRiskReview] = useState<{
-    date: string;
-    dayStart: string;
-    items: ItineraryItem[];
-    previousPlanSnapshot: DayPlan[];
-    conflicts: string[];
-    signature: string;
-  } | null>(null);
+  // Edited days awaiting AI review, keyed by date
+  const [pendingRiskReviews, setPendingRiskReviews] = useState<Record<string, PendingRiskReview>>({});
+  // Plan as it was when schedule edit mode was entered, restored on cancel
+  const editBaselineRef = useRef<PlanSnapshot | null>(null);
   const [lastReviewedSignatures, setLastReviewedSignatures] = useState<Record<string, string>>({});
+  const history = useEditHistory();
 
-  // Session-wide image cache to persist sketches across tab switches
-  const [imageCache, setImageCache] = useState<Record<string, string>>({});
+  // Image cache persisted with the trip so sketches survive tab switches and reloads
+  const [imageCache, setImageCache] = useState<Record<string, string>>(initialTrip?.imageCache ?? {});
 
   const [inquiryData, setInquiryData] = useState<InquiryResult | null>(null);
   const [inquiryAnswers, setInquiryAnswers] = useState<Record<string, string>>({});
+  const [importedBookings, setImportedBookings] = useState<ImportedBooking[]>([]);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+  const [shareFeedback, setShareFeedback] = useState<string | null>(null);
+  // Stop dropped on the map, inserted on the next render so it lands on the current plan
+  const [mapStopDraft, setMapStopDraft] = useState<{ date: string; item: ItineraryItem } | null>(null);
+  const [scheduleFocusId, setScheduleFocusId] = useState<string | null>(null);
+  const [locationCheckProgress, setLocationCheckProgress] = useState<{ done: number; total: number } | null>(null);
+  const [offlineMap, setOfflineMap] = useState<SavedTrip['offlineMap']>(initialTrip?.offlineMap);
+  const [offlineProgress, setOfflineProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  // Set while a plan is streaming in; days render as they arrive but stay locked
+  const [draftProgress, setDraftProgress] = useState<{ completed: number; total: number } | null>(null);
+  const generationIdRef = useRef(0);
+  const isLocked = readOnly || draftProgress !== null;
+  const travelMode = travelModeForTransport(config.transport);
+  // Stop hovered in the journal or on the map, highlighted in both
+  const [hoveredItemId, setHoveredItemId] = useState<string | null>(null);
+  // Bumped when routed legs arrive so timelines re-layout with them
+  const [routingRevision, setRoutingRevision] = useState(0);
+  const [regenerateDate, setRegenerateDate] = useState<string | null>(null);
+  const [alternativesTarget, setAlternativesTarget] = useState<{ date: string; item: ItineraryItem } | null>(null);
 
   // Autocomplete state
   const [suggestions, setSuggestions] = useState<any[]>([]);
@@ -292,48 +291,263 @@ export default function Planner({ profile }: PlannerProps) {
     }
   };
 
+  // Geocodes a fresh plan in the background; corrections are part of the draft, not an undo step
+  const runLocationChecks = (itinerary: DayPlan[], generationId: number) => {
+    setLocationCheckProgress({ done: 0, total: 0 });
+    validatePlanLocations(itinerary, config.destination, (done, total) => {
+      if (generationIdRef.current === generationId) setLocationCheckProgress({ done, total });
+    })
+      .then(checks => {
+        if (generationIdRef.current !== generationId || checks.length === 0) return;
+        setPlan(prev => prev ? applyLocationChecks(prev, checks) : prev);
+        // Moved stops change their legs; the relayout picks up the current day starts
+        setRoutingRevision(prev => prev + 1);
+      })
+      .catch(error => console.warn("Location check skipped:", error))
+      .finally(() => {
+        if (generationIdRef.current === generationId) setLocationCheckProgress(null);
+      });
+  };
+
   const handleGenerate = async () => {
+    const generationId = ++generationIdRef.current;
+    const previous = { plan, summary, survivalKit, tripMeta, activeDate, isSetupView, timeZone, dayStartTimes, imageCache, moodImage };
     setLoading(true);
     setInquiryData(null);
-    setMoodImage(null);
-    setImageCache({}); // Clear old session images when a new plan is created
     setActiveView('journal');
     
-    const extraContext = Object.entries(inquiryAnswers)
+    const inquiryContext = Object.entries(inquiryAnswers)
       .map(([id, ans]) => {
         const q = inquiryData?.questions?.find(q => q.id === id);
         return q ? `Question: ${q.question} Answer: ${ans}` : "";
       }).join(". ");
+    const extraContext = [inquiryContext, buildBookingConstraints(importedBookings)].filter(Boolean).join("\n\n");
+
+    // The old trip keeps its images until the new one actually shows, so a failed run can put them back
+    let hasShownDraft = false;
+    let generationFailed = false;
+    let pendingMoodImage: string | null = null;
+    const showNewTripImages = () => {
+      hasShownDraft = true;
+      setImageCache({});
+      setMoodImage(pendingMoodImage);
+    };
+
+    generateMoodImage(config.destination)
+      .then(image => {
+        if (!image || generationFailed || generationIdRef.current !== generationId) return;
+        if (hasShownDraft) setMoodImage(image);
+        else pendingMoodImage = image;
+      })
+      .catch(() => null);
+
+    // Leave the overlay as soon as the first day is drafted and keep filling in
+    const handleProgress = ({ days, totalDays, summary: draftSummary }: PlanStreamProgress) => {
+      if (generationIdRef.current !== generationId) return;
+      const draftDays = mergeBookingsIntoPlan(days, importedBookings);
+      setPlan(draftDays);
+      if (draftSummary) setSummary(draftSummary);
+      setDraftProgress({ completed: days.length, total: totalDays });
+      if (!hasShownDraft) {
+        showNewTripImages();
+        // No kit and no trip id yet, so autosave stays idle until the plan is complete
+        setSurvivalKit(null);
+        setTripMeta(null);
+        setActiveDate(draftDays[0]?.date ?? null);
+        setIsSetupView(false);
+        setLoading(false);
+      }
+    };
 
     try {
-      const [result, heroImg] = await Promise.all([
-        generatePlan(profile, config, extraContext),
-        generateMoodImage(config.destination).catch(() => null)
-      ]);
+      const result = await generatePlan(profile, config, extraContext, handleProgress);
+      if (generationIdRef.current !== generationId) return;
 
-      setPlan(result.itinerary);
+      // Bookings are authoritative: drop the model's copies and pin the originals, now in the trip's zone
+      const itinerary = mergeBookingsIntoPlan(result.itinerary, localizeBookings(importedBookings, result.timeZone));
+      setPlan(itinerary);
       setSummary(result.summary);
+      setTimeZone(result.timeZone);
       setSurvivalKit(result.survivalKit);
-      setMoodImage(heroImg);
+      setTripMeta({ id: createTripId(), name: config.destination, createdAt: Date.now() });
       const initialDayStarts: Record<string, string> = {};
-      result.itinerary.forEach(day => {
+      itinerary.forEach(day => {
         const seedTime = parseTimeToMinutes(day.items[0]?.time) ?? parseTimeToMinutes(DEFAULT_DAY_START) ?? 9 * 60;
         initialDayStarts[day.date] = formatMinutesToTime(seedTime);
       });
       setDayStartTimes(initialDayStarts);
       setConflictModal(null);
-      setPendingRiskReview(null);
+      setPendingRiskReviews({});
       setLastReviewedSignatures({});
-      if (result.itinerary.length > 0) {
-        setActiveDate(result.itinerary[0].date);
+      history.reset();
+      if (!hasShownDraft) {
+        showNewTripImages();
+        if (itinerary.length > 0) setActiveDate(itinerary[0].date);
       }
       setIsSetupView(false);
+      runLocationChecks(itinerary, generationId);
     } catch (error: any) {
+      if (generationIdRef.current !== generationId) return;
+      generationFailed = true;
+      // Drop any half-drafted days and put back whatever was open before
+      setPlan(previous.plan);
+      setSummary(previous.summary);
+      setSurvivalKit(previous.survivalKit);
+      setTimeZone(previous.timeZone);
+      setDayStartTimes(previous.dayStartTimes);
+      setImageCache(previous.imageCache);
+      setMoodImage(previous.moodImage);
+      setTripMeta(previous.tripMeta);
+      setActiveDate(previous.activeDate);
+      setIsSetupView(previous.isSetupView);
       alert("Curation interrupted. The model might be busy. Please try again.");
       console.error("Generation error:", error);
     } finally {
-      setLoading(false);
+      if (generationIdRef.current === generationId) {
+        setDraftProgress(null);
+        setLoading(false);
+      }
+    }
+  };
+
+  const journalExportData = useMemo<JournalExportData | null>(() => plan ? {
+    destination: config.destination,
+    startDate: config.startDate,
+    endDate: config.endDate,
+    summary,
+    plan,
+    survivalKit,
+    imageCache,
+    moodImage
+  } : null, [config.destination, config.startDate, config.endDate, summary, plan, survivalKit, imageCache, moodImage]);
+
+  const handleExportPdf = async () => {
+    if (!journalExportData) return;
+    // The built-in PDF fonts would leave CJK text blank; the browser's print dialog can save it as PDF instead
+    if (hasUnsupportedPdfText(journalExportData)) {
+      if (window.confirm("This journal has characters the PDF export cannot draw (such as Chinese, Japanese or Korean). Open the print layout instead? Choose \"Save as PDF\" there.")) {
+        window.print();
+      }
+      return;
+    }
+    setIsExportingPdf(true);
+    try {
+      await downloadJournalPdf(journalExportData);
+    } catch (error) {
+      console.error("PDF export failed:", error);
+      alert("Could not build the PDF. Try printing the journal instead.");
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  // Calendar bookings imported before the trip's zone was known move to its wall clock once it is
+  useEffect(() => {
+    if (timeZone) setImportedBookings(prev => localizeBookings(prev, timeZone));
+  }, [timeZone]);
+
+  // Shared links carry no images; sketch a fresh cover for the viewer
+  useEffect(() => {
+    if (!initialTrip || initialTrip.moodImage || !initialTrip.config.destination) return;
+    generateMoodImage(initialTrip.config.destination)
+      .then(image => image && setMoodImage(image))
+      .catch(() => null);
+  }, [initialTrip]);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  const snapshotTrip = (): SavedTrip | null => {
+    if (!tripMeta || !plan || !survivalKit) return null;
+    return {
+      id: tripMeta.id,
+      name: tripMeta.name,
+      createdAt: tripMeta.createdAt,
+      updatedAt: Date.now(),
+      profile,
+      config,
+      result: { itinerary: plan, summary, survivalKit, timeZone },
+      dayStartTimes,
+      imageCache,
+      moodImage,
+      offlineMap
+    };
+  };
+
+  // Autosave the open trip whenever its content changes
+  useEffect(() => {
+    if (readOnly || !tripMeta || !plan || !survivalKit) return;
+    if (autosaveTimeoutRef.current) {
+      clearTimeout(autosaveTimeoutRef.current);
+    }
+    autosaveTimeoutRef.current = window.setTimeout(() => {
+      autosaveTimeoutRef.current = null;
+      const trip = snapshotTrip();
+      if (trip) saveTrip(trip).catch(e => console.error("Autosave failed:", e));
+    }, AUTOSAVE_DELAY_MS);
+  }, [readOnly, tripMeta, plan, summary, timeZone, survivalKit, dayStartTimes, imageCache, moodImage, offlineMap, config, profile]);
+
+  // A save still pending after unmount could overwrite a rename or bring back a trip deleted in the library
+  useEffect(() => () => {
+    if (autosaveTimeoutRef.current) clearTimeout(autosaveTimeoutRef.current);
+  }, []);
+
+  // Writes the pending autosave before leaving, so the library lists the latest edits
+  const handleOpenLibrary = async () => {
+    if (autosaveTimeoutRef.current) {
+      clearTimeout(autosaveTimeoutRef.current);
+      autosaveTimeoutRef.current = null;
+      const trip = snapshotTrip();
+      if (trip) await saveTrip(trip).catch(e => console.error("Autosave failed:", e));
+    }
+    onOpenLibrary();
+  };
+
+  const handleShare = async () => {
+    const trip = snapshotTrip();
+    if (!trip) return;
+    try {
+      const url = await buildShareUrl(trip);
+      try {
+        await navigator.clipboard.writeText(url);
+        setShareFeedback('Share link copied');
+      } catch {
+        window.prompt('Copy this link to share the journal:', url);
+      }
+    } catch (error) {
+      console.error("Share link failed:", error);
+      setShareFeedback('Could not create a share link');
+    }
+    window.setTimeout(() => setShareFeedback(null), 2500);
+  };
+
+  const handleSaveOffline = async () => {
+    if (!plan || offlineProgress) return;
+    setOfflineProgress({ done: 0, total: 0 });
+    try {
+      const result = await saveTripMapOffline(plan, (done, total) => setOfflineProgress({ done, total }));
+      const saved = { savedAt: Date.now(), tileCount: result.tileCount };
+      setOfflineMap(saved);
+      // Write the trip right away instead of waiting for autosave, so it is there offline
+      const trip = snapshotTrip();
+      if (trip) await saveTrip({ ...trip, offlineMap: saved });
+      setShareFeedback(result.failed > 0
+        ? `Saved offline · ${result.failed} map tiles could not be downloaded`
+        : `Saved offline · ${result.tileCount} map tiles`);
+    } catch (error: any) {
+      console.error("Offline save failed:", error);
+      setShareFeedback(error?.message || 'Could not save this trip for offline use');
+    } finally {
+      setOfflineProgress(null);
     }
+    window.setTimeout(() => setShareFeedback(null), 4000);
   };
 
   const scheduleRiskAnalysis = useCallback((
@@ -365,7 +579,7 @@ export default function Planner({ profile }: PlannerProps) {
         let recalculatedConflicts = initialConflicts;
 
         if (result.updatedItems && result.updatedItems.length > 0) {
-          const recalculated = calculateTimeline(result.updatedItems, dayStart);
+          const recalculated = calculateTimeline(result.updatedItems, dayStart, travelMode);
           recalculatedItems = recalculated.items;
           recalculatedConflicts = recalculated.conflicts;
           setPlan(prev => prev ? prev.map(d => d.date === date ? { ...d, items: recalculatedItems } : d) : prev);
@@ -396,29 +610,120 @@ export default function Planner({ profile }: PlannerProps) {
     }, 650);
   }, [config, profile]);
 
-  const applyDayUpdate = (date: string, newItems: ItineraryItem[], overrideDayStart?: string) => {
+  const queueRiskReview = (date: string, items: ItineraryItem[], dayStart: string, previousPlanSnapshot: DayPlan[]) => {
+    const { items: timelineItems, conflicts } = calculateTimeline(items, dayStart, travelMode);
+    const signature = buildTimelineSignature(timelineItems);
+    setPendingRiskReviews(prev => {
+      const { [date]: existing, ...rest } = prev;
+      if (lastReviewedSignatures[date] && lastReviewedSignatures[date] === signature) {
+        return rest;
+      }
+      // Keep the earliest snapshot so the review compares against the day before any of the pending edits
+      return {
+        ...rest,
+        [date]: {
+          date,
+          dayStart,
+          previousDayStart: existing?.previousDayStart ?? dayStartTimes[date] ?? DEFAULT_DAY_START,
+          items: timelineItems,
+          previousPlanSnapshot: existing?.previousPlanSnapshot ?? previousPlanSnapshot,
+          conflicts,
+          signature
+        }
+      };
+    });
+  };
+
+  /**
+   * Applies edits to one or more days, recomputes their timelines and records
+   * the change in the undo history under `label`.
+   */
+  const applyPlanUpdate = (
+    updates: Record<string, ItineraryItem[]>,
+    label: string,
+    options: { dayStart?: string; dayStarts?: Record<string, string>; coalesceKey?: string } = {}
+  ) => {
     if (!plan) return;
     const previousPlanSnapshot = plan;
-    const dayStart = overrideDayStart ?? dayStartTimes[date] ?? DEFAULT_DAY_START;
-    const { items: timelineItems, conflicts } = calculateTimeline(newItems, dayStart);
-    const signature = buildTimelineSignature(timelineItems);
-    const updatedPlan = plan.map(d => d.date === date ? { ...d, items: timelineItems } : d);
+    const recalculated: Record<string, { items: ItineraryItem[]; dayStart: string }> = {};
+    Object.entries(updates).forEach(([date, newItems]) => {
+      const dayStart = options.dayStarts?.[date] ?? options.dayStart ?? dayStartTimes[date] ?? DEFAULT_DAY_START;
+      recalculated[date] = { items: calculateTimeline(newItems, dayStart, travelMode).items, dayStart };
+    });
+    const updatedPlan = plan.map(d => recalculated[d.date] ? { ...d, items: recalculated[d.date].items } : d);
+    history.record(label, Object.keys(updates), { plan, dayStartTimes }, options.coalesceKey);
     setPlan(updatedPlan);
     setConflictModal(null);
-    if (lastReviewedSignatures[date] && lastReviewedSignatures[date] === signature) {
-      setPendingRiskReview(null);
-      return;
-    }
-    setPendingRiskReview({
-      date,
-      dayStart,
-      items: timelineItems,
-      previousPlanSnapshot,
-      conflicts,
-      signature
+    Object.entries(recalculated).forEach(([date, { items, dayStart }]) => {
+      queueRiskReview(date, items, dayStart, previousPlanSnapshot);
     });
   };
 
+  const applyDayUpdate = (
+    date: string,
+    newItems: ItineraryItem[],
+    label: string,
+    options: { dayStart?: string; coalesceKey?: string } = {}
+  ) => {
+    applyPlanUpdate({ [date]: newItems }, label, options);
+  };
+
+  const restoreSnapshot = (snapshot: PlanSnapshot, affectedDates: string[]) => {
+    if (!plan) return;
+    const previousPlanSnapshot = plan;
+    setPlan(snapshot.plan);
+    setDayStartTimes(snapshot.dayStartTimes);
+    setConflictModal(null);
+    affectedDates.forEach(date => {
+      const day = snapshot.plan.find(d => d.date === date);
+      if (day) {
+        queueRiskReview(date, day.items, snapshot.dayStartTimes[date] ?? DEFAULT_DAY_START, previousPlanSnapshot);
+      }
+    });
+  };
+
+  const currentSnapshot = (): PlanSnapshot => ({ plan: plan ?? [], dayStartTimes });
+
+  const handleUndo = () => {
+    const result = history.undo(currentSnapshot());
+    if (result) restoreSnapshot(result.snapshot, result.entries[0].dates);
+  };
+
+  const handleRedo = () => {
+    const result = history.redo(currentSnapshot());
+    if (result) restoreSnapshot(result.snapshot, result.entries[result.entries.length - 1].dates);
+  };
+
+  const handleUndoTo = (index: number) => {
+    const result = history.undoTo(index, currentSnapshot());
+    if (result) restoreSnapshot(result.snapshot, result.entries[0].dates);
+  };
+
+  const handleRedoTo = (index: number) => {
+    const result = history.redoTo(index, currentSnapshot());
+    if (result) restoreSnapshot(result.snapshot, result.entries[result.entries.length - 1].dates);
+  };
+
+  // Keyboard shortcuts: Ctrl/⌘+Z to undo, Ctrl/⌘+Shift+Z or Ctrl+Y to redo
+  useEffect(() => {
+    if (isSetupView || isLocked) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const updateDayStart = (date: string, value: string | number) => {
     let nextTime: string;
     if (typeof value === 'string') {
@@ -432,32 +737,91 @@ export default function Planner({ profile }: PlannerProps) {
     setDayStartTimes(prev => ({ ...prev, [date]: nextTime }));
     const day = plan?.find(d => d.date === date);
     if (day) {
-      applyDayUpdate(date, day.items, nextTime);
+      applyDayUpdate(date, day.items, `Day start → ${nextTime}`, { dayStart: nextTime });
     }
   };
 
   const handleReorder = (newItems: ItineraryItem[]) => {
     if (!plan || !activeDate) return;
-    applyDayUpdate(activeDate, newItems);
+    applyDayUpdate(activeDate, newItems, 'Reorder stops', { coalesceKey: `reorder-${activeDate}` });
+  };
+
+  // Fixed-time stops survive a redraft untouched
+  const handleRegenerateDay = async (date: string, instruction: string) => {
+    if (!plan) throw new Error("No plan to redraft");
+    const day = await regenerateDay(profile, config, plan, date, instruction);
+    const pinned = (plan.find(d => d.date === date)?.items ?? []).filter(item => item.pinned);
+    return mergeBookingsIntoPlan([day], pinned.map(item => ({ date, item })))[0];
+  };
+
+  const handleAcceptRegeneratedDay = (day: DayPlan) => {
+    const seedTime = parseTimeToMinutes(day.items[0]?.startTime || day.items[0]?.time);
+    const dayStart = seedTime !== null ? formatMinutesToTime(seedTime) : dayStartTimes[day.date] ?? DEFAULT_DAY_START;
+    setDayStartTimes(prev => ({ ...prev, [day.date]: dayStart }));
+    const dayNumber = (plan?.findIndex(d => d.date === day.date) ?? 0) + 1;
+    applyDayUpdate(day.date, day.items, `Redraft day ${dayNumber}`, { dayStart });
+  };
+
+  const handleSuggestAlternatives = (date: string, item: ItineraryItem) =>
+    suggestAlternatives(profile, config, plan ?? [], date, item);
+
+  // The replacement takes over the original's slot, including a fixed time
+  const handleSwapStop = (date: string, original: ItineraryItem, replacement: ItineraryItem) => {
+    const day = plan?.find(d => d.date === date);
+    if (!day) return;
+    // The curator's pitch is display-only; keep it out of the saved itinerary
+    const { reason: _reason, ...fields } = replacement as ItineraryItem & { reason?: unknown };
+    const swapped: ItineraryItem = {
+      ...fields,
+      time: original.time,
+      duration: original.duration,
+      pinned: original.pinned,
+      startTime: original.pinned ? original.startTime : replacement.startTime,
+      endTime: original.pinned ? original.endTime : replacement.endTime
+    };
+    const items = day.items.map(item => item.id === original.id ? swapped : item);
+    applyDayUpdate(date, items, `Swap ${original.title} → ${replacement.title}`);
+    setAlternativesTarget(null);
   };
 
   const handleDeleteItem = (itemId: string) => {
     if (!plan || !activeDate) return;
     const currentDay = plan.find(d => d.date === activeDate);
     if (!currentDay) return;
+    const removed = currentDay.items.find(i => i.id === itemId);
     const filtered = currentDay.items.filter(i => i.id !== itemId);
-    applyDayUpdate(activeDate, filtered);
+    applyDayUpdate(activeDate, filtered, `Delete ${removed?.title ?? 'stop'}`);
   };
 
   const handleScheduleReorder = (date: string, newItems: ItineraryItem[]) => {
-    applyDayUpdate(date, newItems);
+    applyDayUpdate(date, newItems, 'Reorder stops', { coalesceKey: `reorder-${date}` });
+  };
+
+  const handleCrossDayReorder = (fromDate: string, toDate: string, item: ItineraryItem, index: number) => {
+    if (!plan || fromDate === toDate) return;
+    const fromDay = plan.find(d => d.date === fromDate);
+    const toDay = plan.find(d => d.date === toDate);
+    if (!fromDay || !toDay) return;
+    // Prefer the live item over the serialized drag payload
+    const moving = fromDay.items.find(i => i.id === item.id) ?? item;
+    const toItems = toDay.items.filter(i => i.id !== moving.id);
+    toItems.splice(Math.max(0, Math.min(index, toItems.length)), 0, moving);
+    const toLabel = new Date(toDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+    applyPlanUpdate(
+      {
+        [fromDate]: fromDay.items.filter(i => i.id !== moving.id),
+        [toDate]: toItems
+      },
+      `Move ${moving.title} to ${toLabel}`
+    );
   };
 
   const handleScheduleDelete = (date: string, itemId: string) => {
     if (!plan) return;
     const day = plan.find(d => d.date === date);
     if (!day) return;
-    applyDayUpdate(date, day.items.filter(item => item.id !== itemId));
+    const removed = day.items.find(item => item.id === itemId);
+    applyDayUpdate(date, day.items.filter(item => item.id !== itemId), `Delete ${removed?.title ?? 'stop'}`);
   };
 
   const handleScheduleInsert = (date: string, index: number) => {
@@ -466,7 +830,7 @@ export default function Planner({ profile }: PlannerProps) {
     if (!day) return;
     const nextItems = [...day.items];
     nextItems.splice(index + 1, 0, createEmptyItem());
-    applyDayUpdate(date, nextItems);
+    applyDayUpdate(date, nextItems, 'Insert new stop');
   };
 
   const handleTitleEdit = (date: string, itemId: string, value: string) => {
@@ -474,7 +838,7 @@ export default function Planner({ profile }: PlannerProps) {
     const day = plan.find(d => d.date === date);
     if (!day) return;
     const updated = day.items.map(item => item.id === itemId ? { ...item, title: value } : item);
-    applyDayUpdate(date, updated);
+    applyDayUpdate(date, updated, `Rename to ${value}`);
   };
 
   const handleDurationEdit = (date: string, itemId: string, minutes: number) => {
@@ -482,22 +846,98 @@ export default function Planner({ profile }: PlannerProps) {
     const safeMinutes = Math.max(15, Math.min(600, Math.round(minutes)));
     const day = plan.find(d => d.date === date);
     if (!day) return;
-    const updated = day.items.map(item => item.id === itemId ? { ...item, duration: formatDuration(safeMinutes) } : item);
-    applyDayUpdate(date, updated);
+    const target = day.items.find(item => item.id === itemId);
+    const updated = day.items.map(item => {
+      if (item.id !== itemId) return item;
+      // Pinned stops keep their start and stretch their end instead
+      const pinnedStart = item.pinned ? parseTimeToMinutes(item.startTime) : null;
+      return {
+        ...item,
+        duration: formatDuration(safeMinutes),
+        ...(pinnedStart !== null ? { endTime: formatMinutesToTime(pinnedStart + safeMinutes) } : {})
+      };
+    });
+    applyDayUpdate(date, updated, `${target?.title ?? 'Stop'} → ${formatDuration(safeMinutes)}`);
   };
 
-  const triggerPendingRiskReview = useCallback(() => {
-    if (!pendingRiskReview) return;
-    setIsRiskAnalyzing(true);
-    scheduleRiskAnalysis(
-      pendingRiskReview.date,
-      pendingRiskReview.items,
-      pendingRiskReview.dayStart,
-      pendingRiskReview.previousPlanSnapshot,
-      pendingRiskReview.conflicts
-    );
-    setPendingRiskReview(null);
-  }, [pendingRiskReview, scheduleRiskAnalysis]);
+  const handleUpdateItemTime = (date: string, itemId: string, newStartTime: string, newEndTime: string) => {
+    if (!plan) return;
+    const day = plan.find(d => d.date === date);
+    const target = day?.items.find(item => item.id === itemId);
+    if (!day || !target) return;
+    const start = parseTimeToMinutes(newStartTime);
+    const end = parseTimeToMinutes(newEndTime);
+    if (start === null || end === null || end <= start) return;
+    const updated = day.items.map(item => item.id === itemId ? {
+      ...item,
+      pinned: true,
+      time: newStartTime,
+      startTime: newStartTime,
+      endTime: newEndTime,
+      duration: formatDuration(end - start)
+    } : item);
+    applyDayUpdate(date, updated, `Pin ${target.title} at ${newStartTime}–${newEndTime}`);
+  };
+
+  const handleUnpinItem = (date: string, itemId: string) => {
+    if (!plan) return;
+    const day = plan.find(d => d.date === date);
+    const target = day?.items.find(item => item.id === itemId);
+    if (!day || !target) return;
+    const updated = day.items.map(item => item.id === itemId ? { ...item, pinned: false } : item);
+    applyDayUpdate(date, updated, `Unpin ${target.title}`);
+  };
+
+  const handleMapAddStop = async (location: { lat: number; lng: number }) => {
+    const date = activeDate || plan?.[0]?.date;
+    if (!date) return;
+    let place = null;
+    try {
+      place = await reverseGeocode(location.lat, location.lng);
+    } catch (error) {
+      console.warn("Reverse geocoding failed, adding an unnamed stop:", error);
+    }
+    setMapStopDraft({
+      date,
+      item: {
+        ...createEmptyItem(),
+        title: place?.title ?? 'Dropped Pin',
+        description: place?.address || 'Added from the map.',
+        type: place?.type ?? 'activity',
+        location
+      }
+    });
+  };
+
+  useEffect(() => {
+    if (!mapStopDraft || !plan) return;
+    const day = plan.find(d => d.date === mapStopDraft.date);
+    setMapStopDraft(null);
+    if (!day) return;
+    // Keep an end-of-day hotel last
+    const last = day.items[day.items.length - 1];
+    const insertAt = day.items.length > 1 && last.type === 'hotel' ? day.items.length - 1 : day.items.length;
+    const nextItems = [...day.items];
+    nextItems.splice(insertAt, 0, mapStopDraft.item);
+    applyDayUpdate(mapStopDraft.date, nextItems, `Add ${mapStopDraft.item.title} from map`);
+  }, [mapStopDraft]);
+
+  const handleMapMoveItem = (itemId: string, location: { lat: number; lng: number }) => {
+    const day = plan?.find(d => d.items.some(item => item.id === itemId));
+    const target = day?.items.find(item => item.id === itemId);
+    if (!day || !target) return;
+    // A hand-placed pin is trusted over any earlier geocoding verdict
+    const updated = day.items.map(item => item.id === itemId ? { ...item, location, locationStatus: 'verified' as const, locationNote: undefined } : item);
+    applyDayUpdate(day.date, updated, `Move ${target.title} on map`);
+  };
+
+  const handleMapSelectItem = (itemId: string) => {
+    const day = plan?.find(d => d.items.some(item => item.id === itemId));
+    if (!day) return;
+    setActiveDate(day.date);
+    setScheduleFocusId(itemId);
+    setActiveView('schedule');
+  };
 
   const startEditTitle = (itemId: string, currentTitle: string) => {
     setEditingTitleId(itemId);
@@ -530,35 +970,37 @@ export default function Planner({ profile }: PlannerProps) {
   }, [plan, activeDate]);
 
   const analyzeScheduleChanges = async () => {
-    if (!pendingRiskReview) return [];
+    const reviews: PendingRiskReview[] = Object.values(pendingRiskReviews);
+    if (reviews.length === 0) return [];
     
     setIsRiskAnalyzing(true);
     try {
-      const result = await analyzeItineraryRisks(
-        profile,
-        config,
-        pendingRiskReview.date,
-        pendingRiskReview.dayStart,
-        pendingRiskReview.items,
-        TRAVEL_BUFFER_MINUTES
-      );
-
-      // Return changes in the format Expected by ChangesImpactModal
-      return [{
-        date: pendingRiskReview.date,
-        before: {
-          dayStart: pendingRiskReview.dayStart, // This might need to be refined if we want the actual 'before' start
-          items: pendingRiskReview.previousPlanSnapshot.find(d => d.date === pendingRiskReview.date)?.items || []
-        },
-        after: {
-          dayStart: pendingRiskReview.dayStart,
-          items: result.updatedItems && result.updatedItems.length > 0 ? result.updatedItems : pendingRiskReview.items
-        },
-        summary: result.summary,
-        fatigueScore: result.fatigueScore,
-        itemRisks: result.itemRisks,
-        suggestions: result.suggestions
-      }];
+      // Return changes in the format Expected by ChangesImpactModal, one entry per edited day
+      return await Promise.all(reviews.map(async review => {
+        const result = await analyzeItineraryRisks(
+          profile,
+          config,
+          review.date,
+          review.dayStart,
+          review.items,
+          TRAVEL_BUFFER_MINUTES
+        );
+        return {
+          date: review.date,
+          before: {
+            dayStart: review.previousDayStart,
+            items: review.previousPlanSnapshot.find(d => d.date === review.date)?.items || []
+          },
+          after: {
+            dayStart: review.dayStart,
+            items: result.updatedItems && result.updatedItems.length > 0 ? result.updatedItems : review.items
+          },
+          summary: result.summary,
+          fatigueScore: result.fatigueScore,
+          itemRisks: result.itemRisks,
+          suggestions: result.suggestions
+        };
+      }));
     } catch (e) {
       console.error("Analysis failed:", e);
       return [];
@@ -569,91 +1011,157 @@ export default function Planner({ profile }: PlannerProps) {
 
   const applyScheduleChanges = async (changesWrapper: { changes: any[] }) => {
     const { changes } = changesWrapper;
-    if (changes && changes.length > 0) {
-      const change = changes[0];
+    (changes || []).forEach(change => {
       const date = change.date;
       const updatedItems = change.after.items;
       
-      const recalculated = calculateTimeline(updatedItems, change.after.dayStart);
+      const recalculated = calculateTimeline(updatedItems, change.after.dayStart, travelMode);
       const finalSignature = buildTimelineSignature(recalculated.items);
       
       setPlan(prev => prev ? prev.map(d => d.date === date ? { ...d, items: recalculated.items } : d) : prev);
       setLastReviewedSignatures(prev => ({ ...prev, [date]: finalSignature }));
-    }
-    setPendingRiskReview(null);
+    });
+    setPendingRiskReviews({});
+    editBaselineRef.current = null;
+  };
+
+  const beginScheduleEdit = () => {
+    editBaselineRef.current = { plan: plan ?? [], dayStartTimes };
+    setPendingRiskReviews({});
   };
 
   const cancelScheduleChanges = () => {
-    if (pendingRiskReview) {
-      setPlan(pendingRiskReview.previousPlanSnapshot);
-      setPendingRiskReview(null);
-    }
+    const baseline = editBaselineRef.current;
+    editBaselineRef.current = null;
+    const editedDates = Object.keys(pendingRiskReviews);
+    setPendingRiskReviews({});
+    if (!baseline || !plan || editedDates.length === 0) return;
+    history.record('Discard schedule edits', editedDates, { plan, dayStartTimes });
+    setPlan(baseline.plan);
+    setDayStartTimes(baseline.dayStartTimes);
   };
 
   const scheduleDays = useMemo(() => {
     if (!plan) return [];
     return plan.map(day => {
       const dayStart = dayStartTimes[day.date] ?? DEFAULT_DAY_START;
-      const { items, conflicts } = calculateTimeline(day.items, dayStart);
+      const { items, conflicts } = calculateTimeline(day.items, dayStart, travelMode);
       return { ...day, dayStart, items, conflicts };
     });
-  }, [plan, dayStartTimes]);
+  }, [plan, dayStartTimes, travelMode, routingRevision]);
 
-  const applyMagicCommand = () => {
-    if (!plan) return;
+  // Ask the routing provider (if configured) for real legs; estimates stand in meanwhile
+  useEffect(() => {
+    if (!plan || draftProgress || !hasRoutingProvider()) return;
+    (async () => {
+      let added = 0;
+      for (const day of plan) added += await refineDayLegs(day.items, travelMode);
+      if (added > 0) setRoutingRevision(prev => prev + 1);
+    })();
+  }, [plan, travelMode, draftProgress]);
+
+  useEffect(() => {
+    if (routingRevision === 0) return;
+    setPlan(prev => prev ? prev.map(day => ({
+      ...day,
+      items: calculateTimeline(day.items, dayStartTimes[day.date] ?? DEFAULT_DAY_START, travelMode).items
+    })) : prev);
+  }, [routingRevision]);
+
+  /**
+   * Interprets the command bar text (AI first, the built-in phrasings as a
+   * fallback) and opens a preview; nothing changes until it is accepted.
+   */
+  const applyMagicCommand = async () => {
+    if (!plan || isInterpretingCommand) return;
     const command = magicCommand.trim();
     if (!command) return;
     const targetDate = activeDate || plan[0]?.date;
     const targetDay = plan.find(day => day.date === targetDate);
     if (!targetDay || !targetDate) return;
 
-    const deleteMatch = command.match(/delete\s+(.+)/i);
-    const durationMatch = command.match(/change\s+(.+)\s+to\s+(.+)/i);
-    const shiftMatch = command.match(/delay\s+all\s+by\s*(\d+)?\s*(h|hour|hours|m|min|minutes)?/i);
-
-    if (deleteMatch) {
-      const keyword = (deleteMatch[1] || deleteMatch[2]).trim();
-      const item = targetDay.items.find(it => it.title.toLowerCase().includes(keyword.toLowerCase()));
-      if (!item) {
-        setMagicFeedback(`Could not find an activity containing "${keyword}".`);
-        return;
-      }
-      handleScheduleDelete(targetDate, item.id);
-      setMagicFeedback(`Deleted: ${item.title}`);
-      setMagicCommand('');
-      return;
+    setIsInterpretingCommand(true);
+    setMagicFeedback('Interpreting your command...');
+    let interpretation: EditCommandInterpretation | null = null;
+    try {
+      interpretation = await interpretEditCommand(command, plan, targetDate, dayStartTimes);
+    } catch (e) {
+      console.error("Command interpretation failed, using local parser:", e);
+      interpretation = parseEditCommandLocally(command, targetDay);
+    } finally {
+      setIsInterpretingCommand(false);
     }
 
-    if (durationMatch) {
-      const keyword = durationMatch[1].trim();
-      const durationInput = durationMatch[2].trim();
-      const minutes = parseDurationMinutes(durationInput);
-      if (!minutes) {
-        setMagicFeedback('Could not recognize the duration. Try "90 min" or "2 hours".');
-        return;
-      }
-      const item = targetDay.items.find(it => it.title.toLowerCase().includes(keyword.toLowerCase()));
-      if (!item) {
-        setMagicFeedback(`Could not find an activity containing "${keyword}".`);
-        return;
-      }
-      handleDurationEdit(targetDate, item.id, minutes);
-      setMagicFeedback(`Updated: ${item.title} to ${formatDuration(minutes)}`);
-      setMagicCommand('');
+    if (!interpretation) {
+      setMagicFeedback('Could not parse the command. Try "Change lunch to 2 hours" or "Delete the museum".');
       return;
     }
-
-    if (shiftMatch) {
-      const amount = shiftMatch[1] ? parseInt(shiftMatch[1], 10) : 1;
-      const unit = shiftMatch[2] || 'hour';
-      const deltaMinutes = unit.includes('hour') || unit.includes('h') ? amount * 60 : amount;
-      updateDayStart(targetDate, deltaMinutes);
-      setMagicFeedback(`The entire schedule has been delayed by ${deltaMinutes} minutes.`);
-      setMagicCommand('');
+    const result = applyEditOperations(plan, dayStartTimes, interpretation.operations);
+    if (result.applied.length === 0) {
+      setMagicFeedback(result.skipped[0] ?? (interpretation.explanation || 'That command does not change the itinerary.'));
       return;
     }
 
-    setMagicFeedback('Could not parse the command. Try "Change lunch to 2 hours" or "Delete the museum".');
+    const changes: ScheduleChange[] = result.touchedDates.map(date => {
+      const beforeStart = dayStartTimes[date] ?? DEFAULT_DAY_START;
+      const afterStart = result.dayStartTimes[date] ?? DEFAULT_DAY_START;
+      const beforeItems = plan.find(day => day.date === date)?.items ?? [];
+      const afterItems = result.plan.find(day => day.date === date)?.items ?? [];
+      return {
+        date,
+        before: { dayStart: beforeStart, items: calculateTimeline(beforeItems, beforeStart, travelMode).items },
+        after: { dayStart: afterStart, items: calculateTimeline(afterItems, afterStart, travelMode).items },
+        summary: date === result.touchedDates[0] ? interpretation!.explanation : undefined,
+        suggestions: date === result.touchedDates[0] ? result.skipped.map(reason => `Skipped · ${reason}`) : undefined
+      };
+    });
+    setMagicPreview({ command, operations: result.applied, changes, result });
+    setMagicFeedback(null);
+  };
+
+  const handleOptimizeRoute = (date: string) => {
+    if (!plan) return;
+    const day = plan.find(d => d.date === date);
+    if (!day) return;
+    const dayStart = dayStartTimes[date] ?? DEFAULT_DAY_START;
+    const result = optimizeDayOrder(day.items, dayStart, travelMode);
+    const dayNumber = plan.findIndex(d => d.date === date) + 1;
+    const change: ScheduleChange = {
+      date,
+      before: { dayStart, items: calculateTimeline(day.items, dayStart, travelMode).items },
+      after: { dayStart, items: calculateTimeline(result.items, dayStart, travelMode).items },
+      summary: result.improved
+        ? 'Floating stops were reordered; fixed times, the hotel and meal times stay where they are.'
+        : 'This day is already in the shortest order that keeps every stop open and meals on time.',
+      metrics: [
+        { label: 'Travel time', before: `${result.before.travelMinutes} min`, after: `${result.after.travelMinutes} min` },
+        { label: 'Distance', before: `${result.before.distanceKm} km`, after: `${result.after.distanceKm} km` },
+        { label: 'Timing issues', before: String(result.before.windowViolations), after: String(result.after.windowViolations) }
+      ]
+    };
+    setRoutePreview({ date, label: `Optimize Day ${dayNumber} route`, items: result.items, improved: result.improved, changes: [change] });
+  };
+
+  const confirmRoutePreview = () => {
+    if (!routePreview) return;
+    if (routePreview.improved) applyDayUpdate(routePreview.date, routePreview.items, routePreview.label);
+    setRoutePreview(null);
+  };
+
+  const confirmMagicPreview = () => {
+    if (!magicPreview) return;
+    const { command, result } = magicPreview;
+    const updates: Record<string, ItineraryItem[]> = {};
+    const dayStarts: Record<string, string> = {};
+    result.touchedDates.forEach(date => {
+      updates[date] = result.plan.find(day => day.date === date)?.items ?? [];
+      dayStarts[date] = result.dayStartTimes[date] ?? DEFAULT_DAY_START;
+    });
+    setDayStartTimes(prev => ({ ...prev, ...dayStarts }));
+    applyPlanUpdate(updates, command, { dayStarts });
+    setMagicFeedback(`Applied: ${magicPreview.operations.join('; ')}`);
+    setMagicCommand('');
+    setMagicPreview(null);
   };
 
   const paperBackgroundStyle = {
@@ -733,15 +1241,44 @@ export default function Planner({ profile }: PlannerProps) {
         isProceedDisabled={Object.keys(inquiryAnswers).length < (inquiryData?.questions?.length || 0)}
       />
 
+      <RegenerateDayModal
+        date={regenerateDate}
+        dayNumber={(plan?.findIndex(d => d.date === regenerateDate) ?? 0) + 1}
+        currentItems={plan?.find(d => d.date === regenerateDate)?.items ?? []}
+        onGenerate={handleRegenerateDay}
+        onAccept={handleAcceptRegeneratedDay}
+        onClose={() => setRegenerateDate(null)}
+      />
+
+      <AlternativesModal
+        target={alternativesTarget}
+        onSuggest={handleSuggestAlternatives}
+        onSwap={handleSwapStop}
+        onClose={() => setAlternativesTarget(null)}
+      />
+
+      <ChangesImpactModal
+        isOpen={magicPreview !== null}
+        title="Command Preview"
+        operations={magicPreview?.operations}
+        changes={magicPreview?.changes ?? []}
+        onClose={() => setMagicPreview(null)}
+        onConfirm={confirmMagicPreview}
+      />
+
+      <ChangesImpactModal
+        isOpen={routePreview !== null}
+        title="Optimized Route"
+        changes={routePreview?.changes ?? []}
+        onClose={() => setRoutePreview(null)}
+        onConfirm={confirmRoutePreview}
+      />
+
       <ConflictModal
         conflictModal={conflictModal}
         plan={plan}
         isRiskAnalyzing={isRiskAnalyzing}
-        onUndo={() => {
-          if (!conflictModal) return;
-          setPlan(conflictModal.previousPlan);
-          setConflictModal(null);
-        }}
+        onUndo={handleUndo}
         onKeep={() => setConflictModal(null)}
       />
 
@@ -964,6 +1501,18 @@ export default function Planner({ profile }: PlannerProps) {
                     </div>
                   </div>
 
+                  <BookingImport
+                    bookings={importedBookings}
+                    timeZone={timeZone}
+                    startDate={config.startDate}
+                    endDate={config.endDate}
+                    onAdd={(added) => setImportedBookings(prev => [
+                      ...prev.filter(existing => !added.some(booking => booking.item.id === existing.item.id)),
+                      ...added
+                    ])}
+                    onRemove={(id) => setImportedBookings(prev => prev.filter(booking => booking.item.id !== id))}
+                  />
+
                   <div className="space-y-6 md:space-y-8">
                     <div className="bg-white/40 backdrop-blur-sm rounded-xl px-3 py-1 w-max inline-block">
                       <label className="text-[10px] md:text-[11px] font-black text-morandi-forest uppercase tracking-[0.3em] md:tracking-[0.4em] opacity-80">The Journal Note</label>
@@ -995,6 +1544,8 @@ export default function Planner({ profile }: PlannerProps) {
             exit={{ opacity: 0, scale: 0.98 }}
             className="flex flex-col md:flex-row h-screen overflow-hidden relative"
           >
+            {draftProgress && <DraftProgress completed={draftProgress.completed} total={draftProgress.total} />}
+
             <div className={`flex-1 transition-all duration-700 ease-in-out overflow-y-auto custom-scrollbar p-6 md:p-12 lg:p-24 bg-morandi-mist pb-32 md:pb-40`}>
               <div className={`mx-auto space-y-16 md:space-y-24 max-w-2xl`}>
                 {activeView === 'journal' && (
@@ -1010,17 +1561,101 @@ export default function Planner({ profile }: PlannerProps) {
                       <div className="space-y-1 md:space-y-3">
                         <h2 className="text-3xl md:text-5xl font-serif text-morandi-forest tracking-tighter leading-none">The Journal.</h2>
                         <p className="text-[8px] md:text-[11px] font-black uppercase tracking-[0.4em] md:tracking-[0.6em] text-morandi-forest/30 italic">CURATED ATMOSPHERE</p>
+                        {readOnly && (
+                          <span className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full bg-morandi-sage/20 text-[8px] md:text-[10px] font-black uppercase tracking-[0.3em] text-morandi-forest/60">
+                            <Eye className="w-3 h-3" />
+                            Shared · Read-only
+                          </span>
+                        )}
+                        {!isOnline && (
+                          <span className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full bg-morandi-sunset/10 text-[8px] md:text-[10px] font-black uppercase tracking-[0.3em] text-morandi-sunset">
+                            <WifiOff className="w-3 h-3" />
+                            Offline{offlineMap ? ' · Saved map' : ''}
+                          </span>
+                        )}
+                        {locationCheckProgress && (
+                          <span className="block text-[10px] text-morandi-forest/50 italic">
+                            Checking locations {locationCheckProgress.done}/{locationCheckProgress.total || '…'}
+                          </span>
+                        )}
+                        {offlineProgress && (
+                          <span className="block text-[10px] text-morandi-forest/50 italic">
+                            Saving map tiles {offlineProgress.done}/{offlineProgress.total || '…'}
+                          </span>
+                        )}
+                        {shareFeedback && (
+                          <span className="block text-[10px] text-morandi-sunset italic">{shareFeedback}</span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 md:gap-3">
+                        <button 
+                          onClick={() => window.print()}
+                          title="Print journal"
+                          className="p-3 md:p-4 glass-panel rounded-full text-morandi-forest/60 hover:text-morandi-forest border-white/60 transition-all shadow-md pointer-events-auto relative z-[50]"
+                        >
+                          <Printer className="w-3 h-3 md:w-4 md:h-4" />
+                        </button>
+                        <button 
+                          onClick={handleExportPdf}
+                          disabled={isExportingPdf}
+                          title="Download journal as PDF"
+                          className="p-3 md:p-4 glass-panel rounded-full text-morandi-forest/60 hover:text-morandi-forest border-white/60 transition-all shadow-md pointer-events-auto relative z-[50] disabled:opacity-40"
+                        >
+                          {isExportingPdf ? <Loader2 className="w-3 h-3 md:w-4 md:h-4 animate-spin" /> : <FileDown className="w-3 h-3 md:w-4 md:h-4" />}
+                        </button>
+                        <button 
+                          onClick={() => plan && downloadIcsCalendar(plan, { destination: config.destination, timeZone })}
+                          title="Export to calendar (.ics)"
+                          className="p-3 md:p-4 glass-panel rounded-full text-morandi-forest/60 hover:text-morandi-forest border-white/60 transition-all shadow-md pointer-events-auto relative z-[50]"
+                        >
+                          <CalendarPlus className="w-3 h-3 md:w-4 md:h-4" />
+                        </button>
+                        {readOnly ? (
+                          <button 
+                            onClick={onSaveCopy}
+                            title="Save a copy to your journals"
+                            className="px-6 md:px-10 py-3 md:py-4 glass-panel rounded-full text-[8px] md:text-[11px] font-black uppercase tracking-[0.2em] md:tracking-[0.3em] text-morandi-forest/60 hover:text-morandi-forest border-white/60 transition-all shadow-md pointer-events-auto relative z-[50] flex items-center gap-2"
+                          >
+                            <BookmarkPlus className="w-3 h-3 md:w-4 md:h-4" />
+                            Save a Copy
+                          </button>
+                        ) : (
+                          <>
+                            <button 
+                              onClick={handleSaveOffline}
+                              disabled={offlineProgress !== null || !isOnline}
+                              title={offlineMap ? `Saved offline ${new Date(offlineMap.savedAt).toLocaleDateString()} · refresh map tiles` : 'Save map and journal for offline use'}
+                              className={`p-3 md:p-4 glass-panel rounded-full hover:text-morandi-forest border-white/60 transition-all shadow-md pointer-events-auto relative z-[50] disabled:opacity-40 ${offlineMap ? 'text-morandi-sage' : 'text-morandi-forest/60'}`}
+                            >
+                              {offlineProgress ? <Loader2 className="w-3 h-3 md:w-4 md:h-4 animate-spin" /> : <CloudDownload className="w-3 h-3 md:w-4 md:h-4" />}
+                            </button>
+                            <button 
+                              onClick={handleShare}
+                              title="Copy a read-only share link"
+                              className="p-3 md:p-4 glass-panel rounded-full text-morandi-forest/60 hover:text-morandi-forest border-white/60 transition-all shadow-md pointer-events-auto relative z-[50]"
+                            >
+                              <Link2 className="w-3 h-3 md:w-4 md:h-4" />
+                            </button>
+                            <button 
+                              onClick={handleOpenLibrary}
+                              title="Saved journals"
+                              className="p-3 md:p-4 glass-panel rounded-full text-morandi-forest/60 hover:text-morandi-forest border-white/60 transition-all shadow-md pointer-events-auto relative z-[50]"
+                            >
+                              <Library className="w-3 h-3 md:w-4 md:h-4" />
+                            </button>
+                            <button 
+                              onClick={() => {
+                                setLoading(false);
+                                setActiveView('journal');
+                                setIsSetupView(true);
+                              }} 
+                              className="px-6 md:px-10 py-3 md:py-4 glass-panel rounded-full text-[8px] md:text-[11px] font-black uppercase tracking-[0.2em] md:tracking-[0.3em] text-morandi-forest/60 hover:text-morandi-forest border-white/60 transition-all shadow-md pointer-events-auto relative z-[50]"
+                            >
+                              Draft New
+                            </button>
+                          </>
+                        )}
                       </div>
-                      <button 
-                        onClick={() => {
-                          setLoading(false);
-                          setActiveView('journal');
-                          setIsSetupView(true);
-                        }} 
-                        className="px-6 md:px-10 py-3 md:py-4 glass-panel rounded-full text-[8px] md:text-[11px] font-black uppercase tracking-[0.2em] md:tracking-[0.3em] text-morandi-forest/60 hover:text-morandi-forest border-white/60 transition-all shadow-md pointer-events-auto relative z-[50]"
-                      >
-                        Draft New
-                      </button>
                     </div>
 
                     <div className="relative h-[240px] md:h-[420px] rounded-4xl md:rounded-[72px] overflow-hidden shadow-2xl border-[16px] md:border-[24px] border-white bg-white group">
@@ -1052,7 +1687,7 @@ export default function Planner({ profile }: PlannerProps) {
                                 DAY 0{idx + 1}
                               </span>
                               <span className={`text-[10px] md:text-[12px] font-bold tracking-tight transition-colors ${activeDate === day.date ? 'text-white' : 'text-morandi-forest'}`}>
-                                {new Date(day.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                                {new Date(day.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}
                               </span>
                             </div>
                           </button>
@@ -1061,6 +1696,24 @@ export default function Planner({ profile }: PlannerProps) {
                     </div>
 
                     <div className="mt-8 md:mt-20">
+                      {!isLocked && activeDate && (
+                        <div className="flex justify-end gap-3 mb-12 md:mb-16">
+                          <button
+                            onClick={() => handleOptimizeRoute(activeDate)}
+                            className="flex items-center gap-2 px-5 py-2.5 glass-panel rounded-full text-[9px] md:text-[10px] font-black uppercase tracking-[0.25em] text-morandi-forest/60 hover:text-morandi-forest border-white/60 transition-all shadow-md"
+                          >
+                            <Route className="w-3 h-3 md:w-3.5 md:h-3.5" />
+                            Optimize order
+                          </button>
+                          <button
+                            onClick={() => setRegenerateDate(activeDate)}
+                            className="flex items-center gap-2 px-5 py-2.5 glass-panel rounded-full text-[9px] md:text-[10px] font-black uppercase tracking-[0.25em] text-morandi-forest/60 hover:text-morandi-forest border-white/60 transition-all shadow-md"
+                          >
+                            <RefreshCw className="w-3 h-3 md:w-3.5 md:h-3.5" />
+                            Redraft this day
+                          </button>
+                        </div>
+                      )}
                       <Reorder.Group axis="y" values={activeItems} onReorder={handleReorder} className="space-y-24 md:space-y-40">
                         <AnimatePresence mode="popLayout">
                           {activeItems.map((item) => (
@@ -1071,11 +1724,19 @@ export default function Planner({ profile }: PlannerProps) {
                               animate={{ opacity: 1, y: 0 }}
                               exit={{ opacity: 0, scale: 0.9, x: -50 }}
                               transition={{ duration: 0.6 }}
-                              className="flex flex-col gap-8 md:gap-12 cursor-grab active:cursor-grabbing bg-transparent relative group"
+                              dragListener={!isLocked}
+                              onMouseEnter={() => setHoveredItemId(item.id)}
+                              onMouseLeave={() => setHoveredItemId(null)}
+                              className={`flex flex-col gap-8 md:gap-12 bg-transparent relative group ${isLocked ? '' : 'cursor-grab active:cursor-grabbing'}`}
                             >
-                              <div className="absolute -left-10 md:left-[-64px] top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 transition-opacity text-morandi-forest/20 hidden md:block">
-                                <GripVertical className="w-8 md:w-10 h-8 md:h-10" />
-                              </div>
+                              {hoveredItemId === item.id && (
+                                <div className="absolute -left-4 md:-left-6 top-0 bottom-0 w-1 rounded-full bg-morandi-sunset/60 pointer-events-none" />
+                              )}
+                              {!isLocked && (
+                                <div className="absolute -left-10 md:left-[-64px] top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 transition-opacity text-morandi-forest/20 hidden md:block">
+                                  <GripVertical className="w-8 md:w-10 h-8 md:h-10" />
+                                </div>
+                              )}
 
                               <div className="flex flex-col md:flex-row md:items-end justify-between border-b border-morandi-forest/5 pb-4 md:pb-8 relative gap-4">
                                 <div className="relative shrink-0 flex items-center md:block">
@@ -1097,6 +1758,19 @@ export default function Planner({ profile }: PlannerProps) {
                                            <span className="text-[8px] md:text-[9px] font-black uppercase tracking-wider">{item.costEstimate}</span>
                                         </div>
                                       )}
+                                      {(item.locationStatus === 'corrected' || item.locationStatus === 'review') && (
+                                        <button
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            setActiveView('map');
+                                          }}
+                                          title={item.locationNote}
+                                          className={`flex items-center gap-1 md:gap-1.5 px-2 md:px-2.5 py-0.5 md:py-1 rounded-full border whitespace-nowrap shrink-0 ${item.locationStatus === 'review' ? 'bg-morandi-sunset/10 text-morandi-sunset border-morandi-sunset/20' : 'bg-morandi-sage/5 text-morandi-sage border-morandi-sage/10'}`}
+                                        >
+                                          <MapPin className="w-2.5 h-2.5 md:w-3 md:h-3" />
+                                          <span className="text-[8px] md:text-[9px] font-black uppercase tracking-wider">{item.locationStatus === 'review' ? 'Check location' : 'Location fixed'}</span>
+                                        </button>
+                                      )}
                                       <a 
                                         href={`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(`${item.title}, ${config.destination}`)}`}
                                         target="_blank"
@@ -1106,15 +1780,29 @@ export default function Planner({ profile }: PlannerProps) {
                                         <MapPin className="w-2.5 h-2.5 md:w-3 md:h-3" />
                                         MAP
                                       </a>
-                                      <button 
-                                        onClick={(e) => {
-                                          e.stopPropagation();
-                                          handleDeleteItem(item.id);
-                                        }}
-                                        className="p-1 md:p-1.5 text-morandi-forest/10 hover:text-red-400 rounded-full transition-all shrink-0"
-                                      >
-                                        <Trash2 className="w-3 md:w-3.5 h-3 md:h-3.5" />
-                                      </button>
+                                      {!isLocked && activeDate && (
+                                        <button 
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            setAlternativesTarget({ date: activeDate, item });
+                                          }}
+                                          title="Suggest alternatives"
+                                          className="p-1 md:p-1.5 text-morandi-forest/10 hover:text-morandi-sunset rounded-full transition-all shrink-0"
+                                        >
+                                          <Shuffle className="w-3 md:w-3.5 h-3 md:h-3.5" />
+                                        </button>
+                                      )}
+                                      {!isLocked && (
+                                        <button 
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleDeleteItem(item.id);
+                                          }}
+                                          className="p-1 md:p-1.5 text-morandi-forest/10 hover:text-red-400 rounded-full transition-all shrink-0"
+                                        >
+                                          <Trash2 className="w-3 md:w-3.5 h-3 md:h-3.5" />
+                                        </button>
+                                      )}
                                    </div>
                                    
                                    <div className="flex flex-col md:items-end w-full">
@@ -1173,10 +1861,18 @@ export default function Planner({ profile }: PlannerProps) {
                           setMagicFeedback(null);
                         }}
                         onApplyMagicCommand={applyMagicCommand}
+                        isInterpretingCommand={isInterpretingCommand}
                         onScheduleReorder={handleScheduleReorder}
+                        onCrossDayReorder={handleCrossDayReorder}
                         onScheduleDelete={handleScheduleDelete}
                         onScheduleInsert={handleScheduleInsert}
                         onUpdateDayStart={updateDayStart}
+                        onUpdateItemTime={handleUpdateItemTime}
+                        onUnpinItem={handleUnpinItem}
+                        onSuggestAlternatives={(date, item) => setAlternativesTarget({ date, item })}
+                        showConflicts
+                        readOnly={isLocked}
+                        onBeginEdit={beginScheduleEdit}
                         editingTitleId={editingTitleId}
                         editingTitleValue={editingTitleValue}
                         onStartEditTitle={startEditTitle}
@@ -1191,6 +1887,8 @@ export default function Planner({ profile }: PlannerProps) {
                         analyzeScheduleChanges={analyzeScheduleChanges}
                         applyScheduleChanges={applyScheduleChanges}
                         cancelScheduleChanges={cancelScheduleChanges}
+                        focusItemId={scheduleFocusId}
+                        onFocusHandled={() => setScheduleFocusId(null)}
                       />
                     </div>
                   </motion.div>
@@ -1204,7 +1902,15 @@ export default function Planner({ profile }: PlannerProps) {
                     exit={{ opacity: 0, scale: 0.95 }}
                     transition={{ duration: 0.5 }}
                   >
-                    <MapView destination={config.destination} items={activeItems} />
+                    <MapView
+                      destination={config.destination}
+                      items={activeItems}
+                      travelMode={travelMode}
+                      plan={plan ?? undefined}
+                      onAddStop={isLocked ? undefined : handleMapAddStop}
+                      onMoveItem={isLocked ? undefined : handleMapMoveItem}
+                      onSelectItem={handleMapSelectItem}
+                    />
                   </motion.div>
                 )}
               </div>
@@ -1219,11 +1925,33 @@ export default function Planner({ profile }: PlannerProps) {
                   transition={{ duration: 0.7, ease: [0.32, 0, 0.67, 0] }}
                   className="hidden md:block h-screen sticky top-0 border-l border-white/40 bg-white/5 backdrop-blur-xl"
                 >
-                   <PastelMap destination={config.destination} items={activeItems} />
+                   <PastelMap
+                     destination={config.destination}
+                     items={activeItems}
+                     travelMode={travelMode}
+                     highlightedItemId={hoveredItemId}
+                     onHoverItem={setHoveredItemId}
+                     onAddStop={isLocked ? undefined : handleMapAddStop}
+                     onMoveItem={isLocked ? undefined : handleMapMoveItem}
+                     onSelectItem={handleMapSelectItem}
+                   />
                 </motion.div>
               )}
             </AnimatePresence>
 
+            {journalExportData && <PrintJournal {...journalExportData} />}
+
+            {!isLocked && (
+              <HistoryPanel
+                past={history.past}
+                future={history.future}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                onUndoTo={handleUndoTo}
+                onRedoTo={handleRedoTo}
+              />
+            )}
+
             <div className="fixed bottom-6 left-0 right-0 z-[100] flex justify-center pointer-events-none px-6">
               <div className="glass-panel p-2 rounded-full border-white/60 shadow-5xl flex gap-1 md:gap-2 pointer-events-auto items-center">
                 <button 
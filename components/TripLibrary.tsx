@@ -0,0 +1,178 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BookOpen, Copy, Edit3, Trash2, Plus, Check, X, Loader2, CloudDownload } from 'lucide-react';
+import { SavedTrip } from '../types.ts';
+import { listTrips, deleteTrip, duplicateTrip, renameTrip } from '../services/tripRepository.ts';
+
+interface TripLibraryProps {
+  onOpenTrip: (trip: SavedTrip) => void;
+  onNewTrip: () => void;
+}
+
+const formatDateRange = (trip: SavedTrip) => {
+  const opts: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', timeZone: 'UTC' };
+  const start = new Date(trip.config.startDate).toLocaleDateString('en-US', opts);
+  const end = new Date(trip.config.endDate).toLocaleDateString('en-US', opts);
+  return `${start} — ${end}`;
+};
+
+export default function TripLibrary({ onOpenTrip, onNewTrip }: TripLibraryProps) {
+  const [trips, setTrips] = useState<SavedTrip[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setTrips(await listTrips());
+    } catch (e) {
+      console.error("Failed to load saved trips:", e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleDuplicate = async (id: string) => {
+    await duplicateTrip(id);
+    await refresh();
+  };
+
+  const handleDelete = async (trip: SavedTrip) => {
+    if (!window.confirm(`Delete "${trip.name}"? This cannot be undone.`)) return;
+    await deleteTrip(trip.id);
+    await refresh();
+  };
+
+  const startRename = (trip: SavedTrip) => {
+    setRenamingId(trip.id);
+    setRenameDraft(trip.name);
+  };
+
+  const finishRename = async (id: string) => {
+    const name = renameDraft.trim();
+    setRenamingId(null);
+    if (!name) return;
+    await renameTrip(id, name);
+    await refresh();
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center px-4 md:px-6 py-12 md:py-24">
+      <div className="max-w-3xl w-full space-y-8 md:space-y-12 pb-24">
+        <header className="text-center space-y-2 md:space-y-4">
+          <span className="text-[8px] md:text-[10px] font-black uppercase tracking-[0.6em] md:tracking-[0.8em] text-morandi-forest/50">THE ARCHIVE</span>
+          <h1 className="text-5xl md:text-7xl font-serif text-morandi-forest tracking-tighter leading-none">Library.</h1>
+          <p className="text-morandi-forest/70 font-medium text-base md:text-lg italic">Every journey you have drafted, kept safe.</p>
+        </header>
+
+        <button
+          onClick={onNewTrip}
+          className="w-full py-5 md:py-6 bg-morandi-forest text-morandi-mist rounded-3xl md:rounded-[40px] font-black text-base md:text-lg shadow-2xl hover:bg-morandi-forest/90 transition-all tracking-tight flex items-center justify-center gap-3"
+        >
+          <Plus className="w-5 h-5" />
+          Draft a New Journey
+        </button>
+
+        {isLoading ? (
+          <div className="p-12 text-center text-morandi-forest/40 italic flex items-center justify-center gap-3">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            <span className="text-sm font-bold uppercase tracking-widest">Opening the archive...</span>
+          </div>
+        ) : trips.length === 0 ? (
+          <div className="glass-panel rounded-4xl p-12 text-center text-morandi-forest/50 italic border-white/60">
+            No saved journeys yet.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <AnimatePresence mode="popLayout">
+              {trips.map(trip => (
+                <motion.div
+                  key={trip.id}
+                  layout
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, x: -20 }}
+                  className="glass-panel rounded-4xl p-6 md:p-8 border-white/60 shadow-md flex flex-col md:flex-row md:items-center gap-4 md:gap-6"
+                >
+                  <button
+                    onClick={() => onOpenTrip(trip)}
+                    className="w-12 h-12 md:w-14 md:h-14 rounded-full bg-morandi-forest text-white flex items-center justify-center shrink-0 shadow-lg hover:scale-105 transition-transform"
+                  >
+                    <BookOpen className="w-5 h-5" />
+                  </button>
+
+                  <div className="flex-1 min-w-0 space-y-1">
+                    {renamingId === trip.id ? (
+                      <div className="flex items-center gap-2">
+                        <input
+                          value={renameDraft}
+                          onChange={(e) => setRenameDraft(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') finishRename(trip.id);
+                            if (e.key === 'Escape') setRenamingId(null);
+                          }}
+                          className="flex-1 bg-white/85 border border-white/70 rounded-2xl px-4 py-2 text-lg font-semibold text-morandi-forest outline-none shadow-inner"
+                          autoFocus
+                        />
+                        <button onClick={() => finishRename(trip.id)} className="p-2 rounded-full text-morandi-forest hover:bg-morandi-forest/10 transition-all">
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => setRenamingId(null)} className="p-2 rounded-full text-morandi-forest/40 hover:text-morandi-forest transition-all">
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <button onClick={() => onOpenTrip(trip)} className="text-left w-full">
+                        <h3 className="text-xl md:text-2xl font-serif text-morandi-forest tracking-tight truncate">{trip.name}</h3>
+                      </button>
+                    )}
+                    <div className="text-[10px] font-black uppercase tracking-[0.25em] text-morandi-forest/40">
+                      {formatDateRange(trip)} · {trip.result.itinerary.length} Days
+                      {trip.offlineMap && (
+                        <span className="inline-flex items-center gap-1 ml-2 text-morandi-sage">
+                          <CloudDownload className="w-3 h-3" />
+                          Offline
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-[11px] text-morandi-forest/40 italic">
+                      Edited {new Date(trip.updatedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => startRename(trip)}
+                      title="Rename"
+                      className="p-2 rounded-full text-morandi-forest/30 hover:text-morandi-forest transition-all"
+                    >
+                      <Edit3 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDuplicate(trip.id)}
+                      title="Duplicate"
+                      className="p-2 rounded-full text-morandi-forest/30 hover:text-morandi-forest transition-all"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(trip)}
+                      title="Delete"
+                      className="p-2 rounded-full text-morandi-forest/30 hover:text-red-400 transition-all"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Shuffle, Loader2, X, Clock, DollarSign } from 'lucide-react';
+import { ItineraryItem } from '../../types.ts';
+import { StopAlternative } from '../../services/geminiService.ts';
+
+interface AlternativesTarget {
+  date: string;
+  item: ItineraryItem;
+}
+
+interface AlternativesModalProps {
+  target: AlternativesTarget | null;
+  onSuggest: (date: string, item: ItineraryItem) => Promise<StopAlternative[]>;
+  onSwap: (date: string, original: ItineraryItem, replacement: ItineraryItem) => void;
+  onClose: () => void;
+}
+
+export default function AlternativesModal({ target, onSuggest, onSwap, onClose }: AlternativesModalProps) {
+  const [alternatives, setAlternatives] = useState<StopAlternative[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped per request so a response for a stop the user already left is dropped
+  const requestIdRef = useRef(0);
+
+  const loadAlternatives = async () => {
+    const requestId = ++requestIdRef.current;
+    if (!target) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const results = await onSuggest(target.date, target.item);
+      if (requestId !== requestIdRef.current) return;
+      setAlternatives(results);
+      if (results.length === 0) setError("Nothing nearby fits this time slot. Try again or adjust the time.");
+    } catch (e) {
+      if (requestId !== requestIdRef.current) return;
+      console.error("Alternative suggestions failed:", e);
+      setError("The curator couldn't find alternatives right now. Please try again.");
+    } finally {
+      if (requestId === requestIdRef.current) setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setAlternatives([]);
+    if (target) {
+      loadAlternatives();
+    } else {
+      requestIdRef.current++;
+      setIsLoading(false);
+    }
+  }, [target?.item.id, target?.date]);
+
+  return (
+    <AnimatePresence>
+      {target && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[120] flex items-end md:items-center justify-center p-0 md:p-6 bg-morandi-forest/50 backdrop-blur-xl"
+        >
+          <motion.div
+            initial={{ y: "100%" }}
+            animate={{ y: 0 }}
+            exit={{ y: "100%" }}
+            transition={{ type: "spring", damping: 25, stiffness: 200 }}
+            className="glass-panel w-full md:max-w-xl max-h-[90vh] overflow-y-auto custom-scrollbar p-8 md:p-12 rounded-t-5xl md:rounded-5xl shadow-5xl border-white/60 space-y-6"
+          >
+            <div className="flex items-start justify-between gap-4 text-morandi-forest">
+              <div className="flex items-center gap-4 min-w-0">
+                <Shuffle className="w-7 h-7 opacity-60 shrink-0" />
+                <div className="min-w-0">
+                  <h3 className="text-2xl font-serif truncate">Instead of {target.item.title}</h3>
+                  <p className="text-[10px] font-black uppercase tracking-widest opacity-40">
+                    {target.item.type} · {target.item.startTime || target.item.time}{target.item.endTime ? `–${target.item.endTime}` : ''}
+                  </p>
+                </div>
+              </div>
+              <button onClick={onClose} className="p-2 rounded-full text-morandi-forest/40 hover:text-morandi-forest transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {isLoading && (
+              <div className="flex items-center justify-center gap-3 py-10 text-morandi-forest/40">
+                <Loader2 className="w-5 h-5 animate-spin" />
+                <span className="text-[10px] font-black uppercase tracking-widest">Scouting nearby options...</span>
+              </div>
+            )}
+
+            {!isLoading && error && <div className="text-xs text-morandi-forest/60 italic">{error}</div>}
+
+            {!isLoading && alternatives.length > 0 && (
+              <div className="space-y-3">
+                {alternatives.map(({ item, reason }) => (
+                  <div key={item.id} className="bg-white/60 rounded-3xl p-4 border border-white/70 space-y-2">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <div className="text-base font-semibold text-morandi-forest">{item.title}</div>
+                        {reason && <div className="text-xs text-morandi-forest/60 italic">{reason}</div>}
+                      </div>
+                      <button
+                        onClick={() => onSwap(target.date, target.item, item)}
+                        className="px-4 py-2 rounded-full bg-morandi-forest text-white text-[10px] font-black uppercase tracking-widest shadow-md hover:shadow-xl transition-all shrink-0"
+                      >
+                        Swap In
+                      </button>
+                    </div>
+                    <p className="text-xs text-morandi-forest/70 line-clamp-2">{item.description}</p>
+                    <div className="flex items-center gap-3 text-[10px] font-black uppercase tracking-wider text-morandi-forest/40">
+                      {item.openTime && item.closeTime && (
+                        <span className="flex items-center gap-1"><Clock className="w-3 h-3" />{item.openTime}–{item.closeTime}</span>
+                      )}
+                      {item.costEstimate && (
+                        <span className="flex items-center gap-1"><DollarSign className="w-3 h-3" />{item.costEstimate}</span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <button
+              onClick={loadAlternatives}
+              disabled={isLoading}
+              className="w-full py-4 rounded-3xl bg-white/70 border border-white/80 text-morandi-forest text-xs font-black uppercase tracking-widest shadow-sm hover:bg-white transition-all disabled:opacity-40"
+            >
+              Show Other Options
+            </button>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,164 @@
+import React, { useRef, useState } from 'react';
+import { FileUp, ClipboardPaste, Plane, Utensils, BedDouble, Ticket, X } from 'lucide-react';
+import { ImportedBooking, ItineraryItem } from '../../types.ts';
+import { parseIcsBookings, parseConfirmationText, BookingImportResult } from '../../services/bookingImporter.ts';
+
+interface BookingImportProps {
+  bookings: ImportedBooking[];
+  // The trip's zone, once a plan exists; calendar times in UTC or other zones are shown in it
+  timeZone?: string;
+  startDate: string;
+  endDate: string;
+  onAdd: (bookings: ImportedBooking[]) => void;
+  onRemove: (id: string) => void;
+}
+
+const TYPE_ICONS: Record<ItineraryItem['type'], any> = {
+  transit: Plane,
+  hotel: BedDouble,
+  food: Utensils,
+  activity: Ticket
+};
+
+export default function BookingImport({ bookings, timeZone, startDate, endDate, onAdd, onRemove }: BookingImportProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const [pastedText, setPastedText] = useState('');
+  const [isPasteOpen, setIsPasteOpen] = useState(false);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const applyResult = (result: BookingImportResult) => {
+    setWarnings(result.warnings);
+    if (result.bookings.length > 0) onAdd(result.bookings);
+    if (result.bookings.length === 0 && result.warnings.length === 0) {
+      setWarnings(['No bookings found.']);
+    }
+  };
+
+  const importFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const results = await Promise.all(Array.from(files).map(async file => {
+      const content = await file.text();
+      return /BEGIN:VCALENDAR/i.test(content) ? parseIcsBookings(content, timeZone) : parseConfirmationText(content);
+    }));
+    applyResult({
+      bookings: results.flatMap(result => result.bookings),
+      warnings: results.flatMap(result => result.warnings)
+    });
+  };
+
+  const importPastedText = () => {
+    if (!pastedText.trim()) return;
+    applyResult(parseConfirmationText(pastedText));
+    setPastedText('');
+    setIsPasteOpen(false);
+  };
+
+  const isOutsideTrip = (date: string) => (startDate && date < startDate) || (endDate && date > endDate);
+
+  const sortedBookings = [...bookings].sort((a, b) =>
+    `${a.date} ${a.item.startTime}`.localeCompare(`${b.date} ${b.item.startTime}`)
+  );
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div className="bg-white/40 backdrop-blur-sm rounded-xl px-3 py-1 w-max inline-block">
+        <label className="text-[10px] md:text-[11px] font-black text-morandi-forest uppercase tracking-[0.3em] md:tracking-[0.4em] opacity-80">Existing Bookings</label>
+      </div>
+
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          importFiles(e.dataTransfer.files);
+        }}
+        onClick={() => fileInputRef.current?.click()}
+        className={`flex flex-col items-center justify-center gap-2 p-6 md:p-8 rounded-3xl border-2 border-dashed cursor-pointer transition-all backdrop-blur-sm ${isDragging ? 'border-morandi-sunset bg-morandi-sunset/10' : 'border-morandi-forest/15 bg-white/40 hover:bg-white/60'}`}
+      >
+        <FileUp className="w-6 h-6 text-morandi-sunset" />
+        <span className="font-bold text-xs md:text-sm text-morandi-forest tracking-tight">Drop flight, hotel or restaurant .ics files</span>
+        <span className="text-[9px] md:text-[10px] uppercase tracking-wider text-morandi-forest/50">They become fixed-time stops the plan is built around</span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ics,text/calendar,.txt,.eml"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            importFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {isPasteOpen ? (
+        <div className="space-y-3">
+          <textarea
+            value={pastedText}
+            onChange={(e) => setPastedText(e.target.value)}
+            placeholder={'Paste a confirmation email. Separate several with a line of dashes (---).'}
+            className="w-full h-32 bg-white/40 backdrop-blur-md border-2 border-morandi-forest/10 rounded-3xl p-5 text-sm text-morandi-forest focus:border-morandi-sunset outline-none transition-all resize-none shadow-inner placeholder:opacity-40"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setIsPasteOpen(false)}
+              className="px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest text-morandi-forest/50 hover:text-morandi-forest transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={importPastedText}
+              disabled={!pastedText.trim()}
+              className="px-5 py-2 rounded-full bg-morandi-forest text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-30 transition-all"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setIsPasteOpen(true)}
+          className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-morandi-forest/50 hover:text-morandi-forest transition-colors"
+        >
+          <ClipboardPaste className="w-3.5 h-3.5" />
+          Paste a confirmation email
+        </button>
+      )}
+
+      {warnings.length > 0 && (
+        <div className="text-[11px] text-morandi-sunset italic space-y-1">
+          {warnings.map((warning, idx) => <div key={idx}>{warning}</div>)}
+        </div>
+      )}
+
+      {sortedBookings.length > 0 && (
+        <div className="space-y-2">
+          {sortedBookings.map(({ date, item }) => {
+            const Icon = TYPE_ICONS[item.type];
+            return (
+              <div key={item.id} className="flex items-center gap-3 px-4 py-3 rounded-2xl bg-white/60 border border-white/80 shadow-sm">
+                <Icon className="w-4 h-4 text-morandi-forest/60 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-bold text-morandi-forest truncate">{item.title}</div>
+                  <div className="text-[10px] uppercase tracking-wider text-morandi-forest/50">
+                    {date} · {item.startTime}–{item.endTime}
+                    {isOutsideTrip(date) && <span className="text-morandi-sunset"> · outside trip dates</span>}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onRemove(item.id)}
+                  title="Remove booking"
+                  className="p-1.5 rounded-full text-morandi-forest/30 hover:text-red-400 transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
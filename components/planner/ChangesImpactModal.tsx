@@ -0,0 +1,170 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { X, Calendar, Wand2 } from 'lucide-react';
+import { ItineraryItem } from '../../types.ts';
+
+export interface ScheduleChange {
+  date: string;
+  before: { dayStart: string; items: ItineraryItem[] };
+  after: { dayStart: string; items: ItineraryItem[] };
+  summary?: string;
+  fatigueScore?: number;
+  itemRisks?: any[];
+  suggestions?: string[];
+  // Before/after figures for the day, e.g. travel minutes from the route optimizer
+  metrics?: { label: string; before: string; after: string }[];
+}
+
+interface ChangesImpactModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: () => void;
+  changes: ScheduleChange[];
+  title?: string;
+  // Human-readable list of the edits that produced `changes` (e.g. from a command)
+  operations?: string[];
+}
+
+// 行程变更确认弹窗组件
+export default function ChangesImpactModal({ isOpen, onClose, onConfirm, changes, title = 'AI Itinerary Review', operations }: ChangesImpactModalProps) {
+  if (!isOpen) return null;
+
+  const renderTimeline = (label: string, dayStart: string, items: ItineraryItem[]) => (
+    <div className="rounded-2xl bg-white/70 border border-white/60 p-4 space-y-2">
+      <div className="text-[10px] font-black uppercase tracking-[0.3em] text-morandi-forest/40 mb-1">{label}</div>
+      <div className="text-xs text-morandi-forest/50 mb-2">Day Start · {dayStart}</div>
+      <div className="space-y-2 max-h-60 overflow-y-auto pr-1">
+        {items.length === 0 ? (
+          <div className="text-sm text-morandi-forest/40 italic">No activities</div>
+        ) : (
+          items.map(item => (
+            <div key={item.id} className="rounded-xl bg-morandi-forest/5 p-3">
+              <div className="text-xs font-black text-morandi-forest/60">
+                {(item.startTime || item.time || '--')} — {item.endTime || ''}
+              </div>
+              <div className="text-sm font-semibold text-morandi-forest">{item.title}</div>
+              {item.duration && (
+                <div className="text-[11px] text-morandi-forest/50">Duration: {item.duration}</div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: 20 }}
+        transition={{ duration: 0.2 }}
+        className="glass-panel rounded-4xl p-8 border-white/60 shadow-2xl w-full max-w-6xl mx-4 space-y-6 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Calendar className="w-5 h-5 text-morandi-forest" />
+            <h3 className="text-xl font-bold text-morandi-forest">{title}</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full text-morandi-forest/40 hover:text-morandi-forest transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {operations && operations.length > 0 && (
+          <div className="rounded-3xl bg-morandi-forest/5 border border-morandi-forest/10 p-4 space-y-2">
+            <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-[0.3em] text-morandi-forest/40">
+              <Wand2 className="w-3.5 h-3.5" />
+              Planned Edits
+            </div>
+            {operations.map((operation, idx) => (
+              <div key={`${operation}-${idx}`} className="text-sm text-morandi-forest/80">{idx + 1}. {operation}</div>
+            ))}
+          </div>
+        )}
+
+        {changes.length === 0 ? (
+          <div className="rounded-3xl bg-morandi-sage/10 border border-morandi-sage/30 p-6 text-center text-morandi-forest/70">
+            No changes detected in the schedule.
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {changes.map(change => (
+              <div key={change.date} className="space-y-4 rounded-4xl border border-white/60 bg-white/70 p-5 shadow-inner">
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                  <div className="text-sm font-black uppercase tracking-[0.3em] text-morandi-forest/60">
+                    {new Date(change.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {renderTimeline('Original Schedule', change.before.dayStart, change.before.items)}
+                  {renderTimeline('Modified Schedule', change.after.dayStart, change.after.items)}
+                </div>
+                <div className="rounded-3xl bg-morandi-forest/5 border border-morandi-forest/10 p-4 space-y-3">
+                  {change.metrics && change.metrics.length > 0 && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                      {change.metrics.map(metric => (
+                        <div key={metric.label} className="rounded-2xl bg-white/70 px-4 py-3">
+                          <div className="text-[10px] font-black uppercase tracking-[0.3em] text-morandi-forest/40">{metric.label}</div>
+                          <div className="text-sm text-morandi-forest">
+                            <span className="opacity-50 line-through mr-2">{metric.before}</span>
+                            <span className="font-semibold">{metric.after}</span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {change.summary && (
+                    <p className="text-sm text-morandi-forest/80">{change.summary}</p>
+                  )}
+                  {change.itemRisks && change.itemRisks.length > 0 && (
+                    <div className="space-y-2">
+                      {change.itemRisks.map((risk, idx) => (
+                        <div key={`${risk.itemId}-${idx}`} className="text-[13px] text-morandi-forest/70">
+                          <span className="font-semibold">{risk.title}</span> · {risk.reason}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {change.suggestions && change.suggestions.length > 0 && (
+                    <div className="text-xs text-morandi-forest/60 space-y-1">
+                      {change.suggestions.map((tip, idx) => (
+                        <div key={`${tip}-${idx}`}>• {tip}</div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-6 py-3 rounded-3xl border-2 border-morandi-forest/20 text-morandi-forest text-sm font-bold hover:bg-morandi-forest/5 transition-all"
+          >
+            Go Back
+          </button>
+          <button
+            onClick={onConfirm}
+            className="flex-1 px-6 py-3 rounded-3xl bg-morandi-forest text-white text-sm font-bold shadow-xl hover:shadow-2xl transition-all"
+          >
+            Accept Changes
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -95,9 +95,9 @@ export default function ConflictModal({
                   const item = day?.items.find(it => it.id === id);
                   if (!item) return null;
                   return (
-                    <div key={id} className="flex items-center justify-between text-morandi-forest text-sm">
+                    <div key={id} className="flex items-center justify-between gap-4 text-morandi-forest text-sm">
                       <span className="font-semibold">{item.title}</span>
-                      <span className="text-xs uppercase tracking-wider text-red-400">Conflict</span>
+                      <span className="text-xs text-red-400 text-right">{item.conflictReason || 'Conflict'}</span>
                     </div>
                   );
                 })}
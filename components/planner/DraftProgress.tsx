@@ -0,0 +1,32 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Loader2 } from 'lucide-react';
+
+interface DraftProgressProps {
+  completed: number;
+  total: number;
+}
+
+export default function DraftProgress({ completed, total }: DraftProgressProps) {
+  const label = completed < total
+    ? `Day ${completed + 1} of ${total} drafting`
+    : 'Packing the survival kit';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="fixed top-6 left-1/2 -translate-x-1/2 z-[100] glass-panel bg-white/80 rounded-full border-white/60 shadow-xl px-5 py-3 flex items-center gap-3 pointer-events-none"
+    >
+      <Loader2 className="w-4 h-4 text-morandi-sunset animate-spin" />
+      <span className="text-[10px] md:text-[11px] font-black uppercase tracking-[0.3em] text-morandi-forest">{label}</span>
+      <div className="w-16 md:w-24 h-1 rounded-full bg-morandi-forest/10 overflow-hidden">
+        <motion.div
+          className="h-full bg-morandi-sunset"
+          animate={{ width: `${Math.round((completed / Math.max(total, 1)) * 100)}%` }}
+          transition={{ duration: 0.6 }}
+        />
+      </div>
+    </motion.div>
+  );
+}
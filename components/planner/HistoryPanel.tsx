@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Undo2, Redo2, History, X } from 'lucide-react';
+import { HistoryEntry } from './useEditHistory.ts';
+
+interface HistoryPanelProps {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  onUndo: () => void;
+  onRedo: () => void;
+  onUndoTo: (index: number) => void;
+  onRedoTo: (index: number) => void;
+}
+
+const formatEntryTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+export default function HistoryPanel({ past, future, onUndo, onRedo, onUndoTo, onRedoTo }: HistoryPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="fixed bottom-28 md:bottom-6 right-6 z-[100] flex flex-col items-end gap-3 pointer-events-none">
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: 10, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: 10, scale: 0.95 }}
+            className="glass-panel bg-white/80 rounded-3xl border-white/60 shadow-5xl w-72 max-h-[50vh] overflow-y-auto custom-scrollbar p-4 space-y-2 pointer-events-auto"
+          >
+            <div className="flex items-center justify-between pb-2 border-b border-morandi-forest/5">
+              <span className="text-[10px] font-black uppercase tracking-[0.3em] text-morandi-forest/40">Edit History</span>
+              <button onClick={() => setIsOpen(false)} className="p-1 rounded-full text-morandi-forest/40 hover:text-morandi-forest transition-colors">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            {past.length === 0 && future.length === 0 ? (
+              <div className="text-xs text-morandi-forest/40 italic py-4 text-center">No edits yet.</div>
+            ) : (
+              <div className="space-y-1">
+                {future.map((entry, idx) => (
+                  <button
+                    key={entry.id}
+                    onClick={() => onRedoTo(idx)}
+                    className="w-full text-left px-3 py-2 rounded-2xl hover:bg-morandi-forest/5 transition-colors opacity-40 hover:opacity-80"
+                  >
+                    <div className="text-xs font-semibold text-morandi-forest line-through">{entry.label}</div>
+                    <div className="text-[10px] text-morandi-forest/50">{formatEntryTime(entry.timestamp)} · undone</div>
+                  </button>
+                ))}
+                {[...past].reverse().map((entry, reversedIdx) => {
+                  const idx = past.length - 1 - reversedIdx;
+                  return (
+                    <button
+                      key={entry.id}
+                      onClick={() => onUndoTo(idx)}
+                      title="Roll back to before this edit"
+                      className={`w-full text-left px-3 py-2 rounded-2xl transition-colors hover:bg-morandi-forest/5 ${reversedIdx === 0 ? 'bg-morandi-forest/5' : ''}`}
+                    >
+                      <div className="text-xs font-semibold text-morandi-forest">{entry.label}</div>
+                      <div className="text-[10px] text-morandi-forest/50">{formatEntryTime(entry.timestamp)}</div>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <div className="glass-panel p-1.5 rounded-full border-white/60 shadow-xl flex items-center gap-1 pointer-events-auto">
+        <button
+          onClick={onUndo}
+          disabled={past.length === 0}
+          title="Undo (Ctrl/⌘+Z)"
+          className="p-3 rounded-full text-morandi-forest/60 hover:text-morandi-forest hover:bg-morandi-forest/5 disabled:opacity-20 transition-all"
+        >
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={future.length === 0}
+          title="Redo (Ctrl/⌘+Shift+Z)"
+          className="p-3 rounded-full text-morandi-forest/60 hover:text-morandi-forest hover:bg-morandi-forest/5 disabled:opacity-20 transition-all"
+        >
+          <Redo2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setIsOpen(open => !open)}
+          title="Edit history"
+          className={`p-3 rounded-full transition-all ${isOpen ? 'bg-morandi-forest text-white' : 'text-morandi-forest/60 hover:text-morandi-forest hover:bg-morandi-forest/5'}`}
+        >
+          <History className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,23 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import PastelMap from '../PastelMap.tsx';
-import { ItineraryItem } from '../../types.ts';
+import { DayPlan, ItineraryItem, TravelMode } from '../../types.ts';
 
 interface MapViewProps {
   destination: string;
   items: ItineraryItem[];
+  travelMode?: TravelMode;
+  // Whole itinerary, for the trip overview toggle
+  plan?: DayPlan[];
+  onAddStop?: (location: { lat: number; lng: number }) => Promise<void>;
+  onMoveItem?: (itemId: string, location: { lat: number; lng: number }) => void;
+  onSelectItem?: (itemId: string) => void;
 }
 
-export default function MapView({ destination, items }: MapViewProps) {
+export default function MapView({ destination, items, travelMode, plan, onAddStop, onMoveItem, onSelectItem }: MapViewProps) {
+  const [showTrip, setShowTrip] = useState(false);
+  const canShowTrip = !!plan && plan.length > 1;
+
   return (
     <motion.div
       key="map-view"
@@ -17,7 +26,31 @@ export default function MapView({ destination, items }: MapViewProps) {
       exit={{ opacity: 0 }}
       className="h-[calc(100vh-160px)] md:h-[calc(100vh-200px)] relative rounded-4xl overflow-hidden shadow-2xl"
     >
-      <PastelMap destination={destination} items={items} />
+      <PastelMap
+        destination={destination}
+        items={items}
+        travelMode={travelMode}
+        days={canShowTrip && showTrip ? plan : undefined}
+        onAddStop={onAddStop}
+        onMoveItem={onMoveItem}
+        onSelectItem={onSelectItem}
+      />
+      {canShowTrip && (
+        <div className="absolute top-8 right-8 z-10 flex bg-white/90 backdrop-blur-xl p-1 rounded-full border border-morandi-sage/30 shadow-xl">
+          {[
+            { label: 'This Day', value: false },
+            { label: 'Whole Trip', value: true }
+          ].map(option => (
+            <button
+              key={option.label}
+              onClick={() => setShowTrip(option.value)}
+              className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-[0.2em] transition-all ${showTrip === option.value ? 'bg-morandi-forest text-white shadow-md' : 'text-morandi-forest/50 hover:text-morandi-forest'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
     </motion.div>
   );
 }
@@ -0,0 +1,88 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { JournalExportData, formatJournalDate } from '../../services/journalExport.ts';
+import StaticRouteMap from './StaticRouteMap.tsx';
+
+/**
+ * Print-only rendition of the journal. It is portalled next to #root and only
+ * shown under @media print (see index.html), so window.print() produces a
+ * paginated journal instead of a screenshot of the current view.
+ */
+export default function PrintJournal({ destination, startDate, endDate, summary, plan, survivalKit, imageCache, moodImage }: JournalExportData) {
+  return createPortal(
+    <div className="print-journal text-morandi-forest">
+      <section className="space-y-4">
+        <span className="text-[10px] font-black uppercase tracking-[0.6em] opacity-50">Journalin</span>
+        <h1 className="text-5xl font-serif tracking-tighter leading-none">{destination}</h1>
+        <p className="text-sm opacity-60">{startDate} – {endDate}</p>
+        {moodImage && <img src={moodImage} alt={destination} className="w-full aspect-[16/9] object-cover rounded-3xl" />}
+        {summary && <p className="font-serif italic text-lg leading-relaxed">{summary}</p>}
+      </section>
+
+      {plan.map((day, dayIdx) => (
+        <section key={day.date} className="print-page-break space-y-6">
+          <header>
+            <span className="text-[10px] font-black uppercase tracking-[0.4em] text-morandi-sunset">Day {dayIdx + 1}</span>
+            <h2 className="text-3xl font-serif tracking-tight">{formatJournalDate(day.date)}</h2>
+          </header>
+          <StaticRouteMap items={day.items} />
+          <div className="space-y-5">
+            {day.items.map((item, idx) => {
+              const image = imageCache[item.id] || item.imageUrl;
+              return (
+                <article key={item.id} className="print-avoid-break flex gap-5 border-b border-morandi-forest/10 pb-5">
+                  <div className="flex-1 space-y-1">
+                    <div className="text-[9px] font-black uppercase tracking-[0.3em] opacity-50">
+                      {idx + 1}. {item.type} · {item.startTime || item.time}
+                      {item.duration && ` · ${item.duration}`}
+                      {item.costEstimate && ` · ${item.costEstimate}`}
+                      {item.pinned && ' · fixed time'}
+                    </div>
+                    <h3 className="text-xl font-serif">{item.title}</h3>
+                    <p className="text-sm leading-relaxed opacity-80">{item.description}</p>
+                  </div>
+                  {image && <img src={image} alt={item.title} className="w-44 aspect-[16/9] object-cover rounded-2xl shrink-0" />}
+                </article>
+              );
+            })}
+          </div>
+        </section>
+      ))}
+
+      {survivalKit && (
+        <section className="print-page-break space-y-8">
+          <h2 className="text-3xl font-serif tracking-tight">The Survival Kit</h2>
+          <div className="print-avoid-break space-y-2">
+            <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-morandi-sunset">Packing List</h3>
+            {survivalKit.packingList.map((entry, idx) => (
+              <div key={idx} className="flex items-center gap-3 text-sm">
+                <span className="w-3 h-3 border border-morandi-forest rounded-sm shrink-0" />
+                {entry}
+              </div>
+            ))}
+          </div>
+          <div className="print-avoid-break space-y-2">
+            <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-morandi-sunset">Budget ({survivalKit.budgetEstimate.currency})</h3>
+            <table className="w-full text-sm">
+              <tbody>
+                <tr><td className="py-1">Accommodation</td><td className="text-right">{survivalKit.budgetEstimate.accommodation}</td></tr>
+                <tr><td className="py-1">Food</td><td className="text-right">{survivalKit.budgetEstimate.food}</td></tr>
+                <tr><td className="py-1">Transport</td><td className="text-right">{survivalKit.budgetEstimate.transport}</td></tr>
+                <tr className="font-bold border-t border-morandi-forest/20"><td className="py-1">Total estimated</td><td className="text-right">{survivalKit.budgetEstimate.totalEstimated}</td></tr>
+              </tbody>
+            </table>
+          </div>
+          {survivalKit.localTips.length > 0 && (
+            <div className="print-avoid-break space-y-2">
+              <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-morandi-sunset">Local Wisdom</h3>
+              <ul className="list-disc pl-5 text-sm space-y-1">
+                {survivalKit.localTips.map((tip, idx) => <li key={idx}>{tip}</li>)}
+              </ul>
+            </div>
+          )}
+        </section>
+      )}
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { RefreshCw, Loader2, X } from 'lucide-react';
+import { DayPlan, ItineraryItem } from '../../types.ts';
+
+interface RegenerateDayModalProps {
+  date: string | null;
+  dayNumber: number;
+  currentItems: ItineraryItem[];
+  onGenerate: (date: string, instruction: string) => Promise<DayPlan>;
+  onAccept: (day: DayPlan) => void;
+  onClose: () => void;
+}
+
+type DiffStatus = 'kept' | 'removed' | 'added';
+
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const diffStatus = (item: ItineraryItem, others: ItineraryItem[], missingStatus: DiffStatus): DiffStatus =>
+  others.some(other => normalizeTitle(other.title) === normalizeTitle(item.title)) ? 'kept' : missingStatus;
+
+const STATUS_STYLES: Record<DiffStatus, string> = {
+  kept: 'bg-white/60 border-white/70 text-morandi-forest/70',
+  removed: 'bg-red-50/60 border-red-200/60 text-red-400 line-through',
+  added: 'bg-morandi-sage/20 border-morandi-sage/40 text-morandi-forest'
+};
+
+const DiffColumn = ({ title, items, others, missingStatus }: { title: string; items: ItineraryItem[]; others: ItineraryItem[]; missingStatus: DiffStatus }) => (
+  <div className="space-y-2 min-w-0">
+    <div className="text-[10px] font-black uppercase tracking-[0.3em] text-morandi-forest/40">{title}</div>
+    {items.length === 0 && <div className="text-xs italic text-morandi-forest/40">No stops</div>}
+    {items.map(item => {
+      const status = diffStatus(item, others, missingStatus);
+      return (
+        <div key={item.id} className={`px-3 py-2 rounded-2xl border text-xs ${STATUS_STYLES[status]}`}>
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-semibold truncate">{item.title}</span>
+            <span className="text-[10px] opacity-60 shrink-0">{item.startTime || item.time}</span>
+          </div>
+          <div className="text-[10px] uppercase tracking-wider opacity-50">
+            {item.type}{item.pinned ? ' · fixed time' : ''}
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default function RegenerateDayModal({ date, dayNumber, currentItems, onGenerate, onAccept, onClose }: RegenerateDayModalProps) {
+  const [instruction, setInstruction] = useState('');
+  const [proposal, setProposal] = useState<DayPlan | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setProposal(null);
+    setInstruction('');
+    setError(null);
+    onClose();
+  };
+
+  const handleGenerate = async () => {
+    if (!date) return;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      setProposal(await onGenerate(date, instruction.trim()));
+    } catch (e) {
+      console.error("Day regeneration failed:", e);
+      setError("The curator couldn't redraft this day. Please try again.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleAccept = () => {
+    if (!proposal) return;
+    onAccept(proposal);
+    handleClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {date && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[120] flex items-end md:items-center justify-center p-0 md:p-6 bg-morandi-forest/50 backdrop-blur-xl"
+        >
+          <motion.div
+            initial={{ y: "100%" }}
+            animate={{ y: 0 }}
+            exit={{ y: "100%" }}
+            transition={{ type: "spring", damping: 25, stiffness: 200 }}
+            className="glass-panel w-full md:max-w-2xl max-h-[90vh] overflow-y-auto custom-scrollbar p-8 md:p-12 rounded-t-5xl md:rounded-5xl shadow-5xl border-white/60 space-y-6"
+          >
+            <div className="flex items-start justify-between gap-4 text-morandi-forest">
+              <div className="flex items-center gap-4">
+                <RefreshCw className="w-7 h-7 opacity-60" />
+                <div>
+                  <h3 className="text-2xl font-serif">Redraft Day {dayNumber}</h3>
+                  <p className="text-[10px] font-black uppercase tracking-widest opacity-40">
+                    {new Date(date).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric', timeZone: 'UTC' })} · other days stay untouched
+                  </p>
+                </div>
+              </div>
+              <button onClick={handleClose} className="p-2 rounded-full text-morandi-forest/40 hover:text-morandi-forest transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <input
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !isGenerating) handleGenerate();
+              }}
+              placeholder="Optional: e.g. more museums, a slower morning, rainy-day ideas..."
+              className="w-full bg-white/70 border border-white/70 rounded-3xl px-4 py-3 text-sm text-morandi-forest outline-none focus:ring-4 ring-morandi-sunset/10 shadow-sm"
+            />
+
+            {error && <div className="text-xs text-red-400 italic">{error}</div>}
+
+            {proposal && (
+              <div className="grid grid-cols-2 gap-4">
+                <DiffColumn title="Current" items={currentItems} others={proposal.items} missingStatus="removed" />
+                <DiffColumn title="Proposed" items={proposal.items} others={currentItems} missingStatus="added" />
+              </div>
+            )}
+
+            <div className="flex flex-col md:flex-row gap-3">
+              <button
+                onClick={handleGenerate}
+                disabled={isGenerating}
+                className="flex-1 py-4 rounded-3xl bg-white/70 border border-white/80 text-morandi-forest text-xs font-black uppercase tracking-widest shadow-sm hover:bg-white transition-all disabled:opacity-40 flex items-center justify-center gap-2"
+              >
+                {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                {proposal ? 'Try Another' : 'Redraft'}
+              </button>
+              {proposal && (
+                <button
+                  onClick={handleAccept}
+                  disabled={isGenerating}
+                  className="flex-1 py-4 rounded-3xl bg-morandi-forest text-white text-xs font-black uppercase tracking-widest shadow-xl hover:shadow-2xl transition-all disabled:opacity-40"
+                >
+                  Use New Day
+                </button>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,7 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence, Reorder } from 'framer-motion';
-import { GripVertical, Plus, Trash2, X, Check, Edit3, Clock, Calendar } from 'lucide-react';
-import { DayPlan, ItineraryItem } from '../../types.ts';
+import { GripVertical, Plus, Trash2, X, Check, Edit3, Clock, Pin, PinOff, Shuffle, Loader2, Footprints, Train, Car, Navigation } from 'lucide-react';
+import { DayPlan, ItineraryItem, TravelLeg, TravelMode } from '../../types.ts';
+import ChangesImpactModal from './ChangesImpactModal.tsx';
+
+const TRAVEL_ICONS: Record<TravelMode, any> = { walk: Footprints, transit: Train, drive: Car, ride: Navigation };
+
+// Leg between two stops; "~" marks a straight-line estimate rather than a routed time
+const TravelLegLabel = ({ leg }: { leg: TravelLeg }) => {
+  const Icon = TRAVEL_ICONS[leg.mode];
+  return (
+    <div className="flex items-center gap-2 pl-8 text-[10px] font-black uppercase tracking-[0.2em] text-morandi-forest/35">
+      <Icon className="w-3 h-3" />
+      {leg.source === 'estimate' ? '~' : ''}{leg.minutes} min · {leg.distanceKm} km
+    </div>
+  );
+};
 
 interface ScheduleDay extends DayPlan {
   dayStart: string;
@@ -14,13 +28,17 @@ interface ScheduleViewProps {
   magicFeedback: string | null;
   onMagicCommandChange: (value: string) => void;
   onApplyMagicCommand: () => void;
+  isInterpretingCommand?: boolean;
   onScheduleReorder: (date: string, items: ItineraryItem[]) => void;
   onCrossDayReorder: (fromDate: string, toDate: string, item: ItineraryItem, index: number) => void;
   onScheduleDelete: (date: string, itemId: string) => void;
   onScheduleInsert: (date: string, index: number) => void;
   onUpdateDayStart: (date: string, newTime: string) => void;
   onUpdateItemTime: (date: string, itemId: string, newStartTime: string, newEndTime: string) => void;
+  onUnpinItem: (date: string, itemId: string) => void;
+  onSuggestAlternatives?: (date: string, item: ItineraryItem) => void;
   showConflicts: boolean;
+  readOnly?: boolean;
   onBeginEdit: () => void;
   editingTitleId: string | null;
   editingTitleValue: string;
@@ -33,12 +51,15 @@ interface ScheduleViewProps {
   onStartEditDuration: (itemId: string, currentMinutes: number) => void;
   onFinishEditDuration: (date: string, itemId: string, minutes: number) => void;
   parseDurationMinutes: (raw?: string | null) => number | null;
-  formatTimeForDisplay: (timeStr: string) => string;
-  parseTimeToMinutes: (timeStr: string) => number;
-  formatMinutesToTime: (minutes: number) => string;
+  formatTimeForDisplay?: (timeStr: string) => string;
+  parseTimeToMinutes?: (timeStr: string) => number;
+  formatMinutesToTime?: (minutes: number) => string;
   analyzeScheduleChanges: () => Promise<any[]>;
   applyScheduleChanges: (changes: any) => Promise<void>;
   cancelScheduleChanges: () => void;
+  // Stop selected elsewhere (e.g. on the map) to scroll to and open for editing
+  focusItemId?: string | null;
+  onFocusHandled?: () => void;
 }
 
 interface TimeEditModalProps {
@@ -353,152 +374,23 @@ const DayStartEditModal: React.FC<DayStartEditModalProps> = ({
   );
 };
 
-// 行程变更确认弹窗组件
-const ChangesImpactModal: React.FC<{
-  isOpen: boolean;
-  onClose: () => void;
-  onConfirm: () => void;
-  changes: Array<{
-    date: string;
-    before: { dayStart: string; items: ItineraryItem[] };
-    after: { dayStart: string; items: ItineraryItem[] };
-    summary?: string;
-    fatigueScore?: number;
-    itemRisks?: any[];
-    suggestions?: string[];
-  }>;
-}> = ({ isOpen, onClose, onConfirm, changes }) => {
-  if (!isOpen) return null;
-
-  const renderTimeline = (label: string, dayStart: string, items: ItineraryItem[]) => (
-    <div className="rounded-2xl bg-white/70 border border-white/60 p-4 space-y-2">
-      <div className="text-[10px] font-black uppercase tracking-[0.3em] text-morandi-forest/40 mb-1">{label}</div>
-      <div className="text-xs text-morandi-forest/50 mb-2">Day Start · {dayStart}</div>
-      <div className="space-y-2 max-h-60 overflow-y-auto pr-1">
-        {items.length === 0 ? (
-          <div className="text-sm text-morandi-forest/40 italic">No activities</div>
-        ) : (
-          items.map(item => (
-            <div key={item.id} className="rounded-xl bg-morandi-forest/5 p-3">
-              <div className="text-xs font-black text-morandi-forest/60">
-                {(item.startTime || item.time || '--')} — {item.endTime || ''}
-              </div>
-              <div className="text-sm font-semibold text-morandi-forest">{item.title}</div>
-              {item.duration && (
-                <div className="text-[11px] text-morandi-forest/50">Duration: {item.duration}</div>
-              )}
-            </div>
-          ))
-        )}
-      </div>
-    </div>
-  );
-
-  return (
-    <motion.div
-      initial={{ opacity: 0 }}
-      animate={{ opacity: 1 }}
-      exit={{ opacity: 0 }}
-      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 backdrop-blur-sm"
-      onClick={onClose}
-    >
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        exit={{ opacity: 0, y: 20 }}
-        transition={{ duration: 0.2 }}
-        className="glass-panel rounded-4xl p-8 border-white/60 shadow-2xl w-full max-w-6xl mx-4 space-y-6 max-h-[90vh] overflow-y-auto"
-        onClick={(e) => e.stopPropagation()}
-      >
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-3">
-            <Calendar className="w-5 h-5 text-morandi-forest" />
-            <h3 className="text-xl font-bold text-morandi-forest">AI Itinerary Review</h3>
-          </div>
-          <button
-            onClick={onClose}
-            className="p-2 rounded-full text-morandi-forest/40 hover:text-morandi-forest transition-colors"
-          >
-            <X className="w-5 h-5" />
-          </button>
-        </div>
-
-        {changes.length === 0 ? (
-          <div className="rounded-3xl bg-morandi-sage/10 border border-morandi-sage/30 p-6 text-center text-morandi-forest/70">
-            No changes detected in the schedule.
-          </div>
-        ) : (
-          <div className="space-y-6">
-            {changes.map(change => (
-              <div key={change.date} className="space-y-4 rounded-4xl border border-white/60 bg-white/70 p-5 shadow-inner">
-                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
-                  <div className="text-sm font-black uppercase tracking-[0.3em] text-morandi-forest/60">
-                    {new Date(change.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
-                  </div>
-                </div>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {renderTimeline('Original Schedule', change.before.dayStart, change.before.items)}
-                  {renderTimeline('Modified Schedule', change.after.dayStart, change.after.items)}
-                </div>
-                <div className="rounded-3xl bg-morandi-forest/5 border border-morandi-forest/10 p-4 space-y-3">
-                  {change.summary && (
-                    <p className="text-sm text-morandi-forest/80">{change.summary}</p>
-                  )}
-                  {change.itemRisks && change.itemRisks.length > 0 && (
-                    <div className="space-y-2">
-                      {change.itemRisks.map((risk, idx) => (
-                        <div key={`${risk.itemId}-${idx}`} className="text-[13px] text-morandi-forest/70">
-                          <span className="font-semibold">{risk.title}</span> · {risk.reason}
-                        </div>
-                      ))}
-                    </div>
-                  )}
-                  {change.suggestions && change.suggestions.length > 0 && (
-                    <div className="text-xs text-morandi-forest/60 space-y-1">
-                      {change.suggestions.map((tip, idx) => (
-                        <div key={`${tip}-${idx}`}>• {tip}</div>
-                      ))}
-                    </div>
-                  )}
-                </div>
-              </div>
-            ))}
-          </div>
-        )}
-
-        <div className="flex flex-col md:flex-row gap-3">
-          <button
-            onClick={onClose}
-            className="flex-1 px-6 py-3 rounded-3xl border-2 border-morandi-forest/20 text-morandi-forest text-sm font-bold hover:bg-morandi-forest/5 transition-all"
-          >
-            Go Back
-          </button>
-          <button
-            onClick={onConfirm}
-            className="flex-1 px-6 py-3 rounded-3xl bg-morandi-forest text-white text-sm font-bold shadow-xl hover:shadow-2xl transition-all"
-          >
-            Accept Changes
-          </button>
-        </div>
-      </motion.div>
-    </motion.div>
-  );
-};
-
-
 export default function ScheduleView({
   scheduleDays,
   magicCommand,
   magicFeedback,
   onMagicCommandChange,
   onApplyMagicCommand,
+  isInterpretingCommand = false,
   onScheduleReorder,
   onCrossDayReorder,
   onScheduleDelete,
   onScheduleInsert,
   onUpdateDayStart,
   onUpdateItemTime,
+  onUnpinItem,
+  onSuggestAlternatives,
   showConflicts,
+  readOnly = false,
   onBeginEdit,
   editingTitleId,
   editingTitleValue,
@@ -524,7 +416,9 @@ export default function ScheduleView({
   },
   analyzeScheduleChanges,
   applyScheduleChanges,
-  cancelScheduleChanges
+  cancelScheduleChanges,
+  focusItemId = null,
+  onFocusHandled
 }: ScheduleViewProps) {
   const [isEditingMode, setIsEditingMode] = useState(false);
   const [timeEditModal, setTimeEditModal] = useState<{
@@ -549,6 +443,20 @@ export default function ScheduleView({
     onBeginEdit();
   };
   
+  useEffect(() => {
+    if (!focusItemId) return;
+    if (!readOnly && !isEditingMode) handleEnterEditMode();
+    // Wait for the view transition before scrolling
+    const scrollTimer = window.setTimeout(() => {
+      document.getElementById(`schedule-item-${focusItemId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 400);
+    const clearTimer = window.setTimeout(() => onFocusHandled?.(), 2500);
+    return () => {
+      window.clearTimeout(scrollTimer);
+      window.clearTimeout(clearTimer);
+    };
+  }, [focusItemId]);
+
   // 退出编辑模式
   const handleCancelEditMode = () => {
     setIsEditingMode(false);
@@ -665,6 +573,7 @@ export default function ScheduleView({
   const handleDrop = (e: React.DragEvent, toDate: string, index: number) => {
     if (!isEditingMode) return;
     e.preventDefault();
+    e.stopPropagation();
     setDragOverDay(null);
     
     try {
@@ -682,7 +591,7 @@ export default function ScheduleView({
   return (
     <>
       {/* 编辑模式浮动按钮 */}
-      <div className="fixed top-6 right-6 z-40">
+      <div className={`fixed top-6 right-6 z-40 ${readOnly ? 'hidden' : ''}`}>
         {!isEditingMode ? (
           <button
             onClick={handleEnterEditMode}
@@ -722,29 +631,33 @@ export default function ScheduleView({
           <p className="text-[9px] md:text-[10px] font-black uppercase tracking-[0.3em] md:tracking-[0.4em] text-morandi-forest/40 italic">Manual Control, Automatic Flow</p>
         </div>
 
-        <div className="glass-panel rounded-3xl p-5 md:p-6 border-white/60 shadow-md space-y-3">
-          <div className="text-[10px] font-black uppercase tracking-[0.3em] text-morandi-forest/40">Magic Command Bar</div>
-          <div className="flex flex-col md:flex-row gap-3">
-            <input
-              value={magicCommand}
-              onChange={(e) => onMagicCommandChange(e.target.value)}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') onApplyMagicCommand();
-              }}
-              placeholder="For example: Extend the lunch break to 2 hours."
-              className="flex-1 bg-white/70 border border-white/70 rounded-3xl px-4 py-3 text-sm text-morandi-forest outline-none focus:ring-4 ring-morandi-sunset/10 shadow-sm"
-            />
-            <button
-              onClick={() => onApplyMagicCommand()}
-              className="px-6 py-3 rounded-3xl bg-morandi-forest text-white text-xs font-black uppercase tracking-widest shadow-xl hover:shadow-2xl transition-all"
-            >
-              Apply
-            </button>
+        {!readOnly && (
+          <div className="glass-panel rounded-3xl p-5 md:p-6 border-white/60 shadow-md space-y-3">
+            <div className="text-[10px] font-black uppercase tracking-[0.3em] text-morandi-forest/40">Magic Command Bar</div>
+            <div className="flex flex-col md:flex-row gap-3">
+              <input
+                value={magicCommand}
+                onChange={(e) => onMagicCommandChange(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') onApplyMagicCommand();
+                }}
+                placeholder="For example: Move the museum to Thursday afternoon and add a coffee break after lunch."
+                className="flex-1 bg-white/70 border border-white/70 rounded-3xl px-4 py-3 text-sm text-morandi-forest outline-none focus:ring-4 ring-morandi-sunset/10 shadow-sm"
+              />
+              <button
+                onClick={() => onApplyMagicCommand()}
+                disabled={isInterpretingCommand}
+                className="px-6 py-3 rounded-3xl bg-morandi-forest text-white text-xs font-black uppercase tracking-widest shadow-xl hover:shadow-2xl transition-all disabled:opacity-40 flex items-center justify-center gap-2"
+              >
+                {isInterpretingCommand && <Loader2 className="w-4 h-4 animate-spin" />}
+                Preview
+              </button>
+            </div>
+            {magicFeedback && (
+              <div className="text-xs text-morandi-forest/60 italic">{magicFeedback}</div>
+            )}
           </div>
-          {magicFeedback && (
-            <div className="text-xs text-morandi-forest/60 italic">{magicFeedback}</div>
-          )}
-        </div>
+        )}
 
         <div className="space-y-12">
           {scheduleDays.map((day, dayIdx) => (
@@ -753,7 +666,7 @@ export default function ScheduleView({
               className="space-y-6"
               onDragOver={(e) => isEditingMode && handleDragOver(e, day.date)}
               onDragLeave={handleDragLeave}
-              onDrop={(e) => handleDrop(e, day.date, 0)}
+              onDrop={(e) => handleDrop(e, day.date, day.items.length)}
             >
               <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
                 <div className="flex items-center gap-3">
@@ -761,7 +674,7 @@ export default function ScheduleView({
                     Day {String(dayIdx + 1).padStart(2, '0')}
                   </div>
                   <div className="text-xs md:text-sm font-semibold text-morandi-forest">
-                    {new Date(day.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    {new Date(day.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}
                   </div>
                 </div>
                 <div className="flex items-center gap-3 text-xs text-morandi-forest/60">
@@ -795,9 +708,21 @@ export default function ScheduleView({
                         animate={{ opacity: 1, y: 0 }}
                         exit={{ opacity: 0, x: -20 }}
                         transition={{ duration: 0.4 }}
+                        id={`schedule-item-${item.id}`}
                         className="space-y-3"
+                        onDrop={(e: React.DragEvent) => handleDrop(e, day.date, idx)}
                       >
-                        <div className={`rounded-[28px] border p-4 md:p-5 bg-white/85 shadow transition-all ${conflictActive ? 'border-red-200 bg-red-50/70' : 'border-morandi-forest/5'} ${dragOverDay === day.date ? 'border-morandi-forest/30' : ''}`}>
+                        {idx > 0 && item.travelBefore && (
+                          <TravelLegLabel leg={item.travelBefore} />
+                        )}
+                        {item.pinned && (item.gapBeforeMinutes ?? 0) > 0 && (
+                          <div className="flex items-center gap-3 px-4 text-[10px] font-black uppercase tracking-[0.25em] text-morandi-forest/30">
+                            <div className="flex-1 border-t border-dashed border-morandi-forest/15" />
+                            Free · {item.gapBeforeMinutes} min
+                            <div className="flex-1 border-t border-dashed border-morandi-forest/15" />
+                          </div>
+                        )}
+                        <div className={`rounded-[28px] border p-4 md:p-5 bg-white/85 shadow transition-all ${conflictActive ? 'border-red-200 bg-red-50/70' : 'border-morandi-forest/5'} ${dragOverDay === day.date ? 'border-morandi-forest/30' : ''} ${focusItemId === item.id ? 'ring-2 ring-morandi-sunset/60' : ''}`}>
                           <div className="flex items-start gap-3 md:gap-4">
                             {/* 拖拽图标 - 最左边 */}
                             {isEditingMode && (
@@ -864,6 +789,21 @@ export default function ScheduleView({
                                       {item.title}
                                     </button>
                                   )}
+                                  {item.pinned && (
+                                    <button
+                                      type="button"
+                                      disabled={!isEditingMode}
+                                      onClick={() => isEditingMode && onUnpinItem(day.date, item.id)}
+                                      title={isEditingMode ? 'Unpin to let this stop flow with the day' : 'Fixed time'}
+                                      className={`mt-1 inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-morandi-sunset/10 text-morandi-sunset text-[9px] font-black uppercase tracking-wider ${isEditingMode ? 'hover:bg-morandi-sunset/20 cursor-pointer' : 'cursor-default'}`}
+                                    >
+                                      {isEditingMode ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                                      Fixed time
+                                    </button>
+                                  )}
+                                  {conflictActive && item.conflictReason && (
+                                    <div className="mt-1 text-[11px] text-red-400">{item.conflictReason}</div>
+                                  )}
                                 </div>
 
                                 {/* 操作按钮 */}
@@ -881,6 +821,15 @@ export default function ScheduleView({
                                     >
                                       <Plus className="w-4 h-4" />
                                     </button>
+                                    {onSuggestAlternatives && (
+                                      <button
+                                        onClick={() => onSuggestAlternatives(day.date, item)}
+                                        title="Suggest alternatives"
+                                        className="p-2 rounded-full text-morandi-forest/30 hover:text-morandi-sunset transition-all"
+                                      >
+                                        <Shuffle className="w-4 h-4" />
+                                      </button>
+                                    )}
                                   </div>
                                 )}
                               </div>
@@ -0,0 +1,39 @@
+import React from 'react';
+import { ItineraryItem } from '../../types.ts';
+import { projectRoute } from '../../services/journalExport.ts';
+
+interface StaticRouteMapProps {
+  items: ItineraryItem[];
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Tile-free route sketch for print: numbered stops joined in visiting order.
+ */
+export default function StaticRouteMap({ items, width = 640, height = 220 }: StaticRouteMapProps) {
+  const points = projectRoute(items, width, height, 24);
+  if (points.length === 0) return null;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto rounded-2xl border border-morandi-arctic bg-morandi-mist">
+      <polyline
+        points={points.map(point => `${point.x},${point.y}`).join(' ')}
+        fill="none"
+        stroke="#E47C58"
+        strokeWidth={2}
+        strokeDasharray="6 4"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+      {points.map(point => (
+        <g key={point.item.id}>
+          <circle cx={point.x} cy={point.y} r={11} fill="#092F26" stroke="#FFFFFF" strokeWidth={2} />
+          <text x={point.x} y={point.y + 4} textAnchor="middle" fontSize={11} fontWeight={700} fill="#FFFFFF">
+            {point.order}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState, useCallback } from 'react';
+import { DayPlan } from '../../types.ts';
+
+const MAX_HISTORY_ENTRIES = 100;
+// Continuous gestures (drag-reorder) fire many updates; fold them into one entry
+const COALESCE_WINDOW_MS = 1200;
+
+export interface PlanSnapshot {
+  plan: DayPlan[];
+  dayStartTimes: Record<string, string>;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  dates: string[];
+  timestamp: number;
+  coalesceKey?: string;
+  // For entries on the undo stack this is the state before the edit;
+  // for entries on the redo stack it is the state after it.
+  snapshot: PlanSnapshot;
+}
+
+interface HistoryStacks {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+const EMPTY_STACKS: HistoryStacks = { past: [], future: [] };
+
+/**
+ * Snapshot-based command history for itinerary edits.
+ * Callers record the state *before* each edit together with a human-readable label;
+ * undo/redo hand back the snapshot to restore and keep both stacks consistent.
+ */
+export function useEditHistory() {
+  const [stacks, setStacks] = useState<HistoryStacks>(EMPTY_STACKS);
+
+  const record = useCallback((label: string, dates: string[], before: PlanSnapshot, coalesceKey?: string) => {
+    setStacks(prev => {
+      const last = prev.past[prev.past.length - 1];
+      const now = Date.now();
+      if (coalesceKey && last?.coalesceKey === coalesceKey && now - last.timestamp < COALESCE_WINDOW_MS) {
+        const merged = { ...last, timestamp: now };
+        return { past: [...prev.past.slice(0, -1), merged], future: [] };
+      }
+      const entry: HistoryEntry = {
+        id: `history-${now}-${Math.random().toString(16).slice(2)}`,
+        label,
+        dates,
+        timestamp: now,
+        coalesceKey,
+        snapshot: before
+      };
+      return { past: [...prev.past, entry].slice(-MAX_HISTORY_ENTRIES), future: [] };
+    });
+  }, []);
+
+  /**
+   * Rewinds so that only the first `index` entries remain applied.
+   * Returns the snapshot to restore and the entries that were undone.
+   */
+  const undoTo = (index: number, current: PlanSnapshot) => {
+    const { past, future } = stacks;
+    if (index < 0 || index >= past.length) return null;
+    const undone = past.slice(index);
+    const redoEntries = undone
+      .map((entry, offset) => ({
+        ...entry,
+        snapshot: offset === undone.length - 1 ? current : undone[offset + 1].snapshot
+      }))
+      .reverse();
+    setStacks({ past: past.slice(0, index), future: [...future, ...redoEntries] });
+    return { snapshot: past[index].snapshot, entries: undone };
+  };
+
+  /**
+   * Replays redo entries up to and including `index` (position in the redo stack).
+   */
+  const redoTo = (index: number, current: PlanSnapshot) => {
+    const { past, future } = stacks;
+    if (index < 0 || index >= future.length) return null;
+    const redone = future.slice(index).reverse();
+    const undoEntries = redone.map((entry, offset) => ({
+      ...entry,
+      snapshot: offset === 0 ? current : redone[offset - 1].snapshot
+    }));
+    setStacks({ past: [...past, ...undoEntries], future: future.slice(0, index) });
+    return { snapshot: future[index].snapshot, entries: redone };
+  };
+
+  const undo = (current: PlanSnapshot) => undoTo(stacks.past.length - 1, current);
+  const redo = (current: PlanSnapshot) => redoTo(stacks.future.length - 1, current);
+
+  const reset = useCallback(() => setStacks(EMPTY_STACKS), []);
+
+  return {
+    past: stacks.past,
+    future: stacks.future,
+    canUndo: stacks.past.length > 0,
+    canRedo: stacks.future.length > 0,
+    record,
+    undo,
+    redo,
+    undoTo,
+    redoTo,
+    reset
+  };
+}
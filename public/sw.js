@@ -0,0 +1,172 @@
+// Journalin service worker: keeps the app shell, map tiles and place lookups
+// available offline. Tiles for a trip and the files the page loaded before
+// this worker took over are precached on request from the page (see
+// services/offline.ts); everything else is cached as it is fetched.
+
+const SHELL_CACHE = 'journalin-shell-v1';
+// Tiles saved for trips, and tiles merely seen while browsing the map; v1 held uncapped opaque tiles
+const TILE_CACHE = 'journalin-tiles-v2';
+const BROWSED_TILE_CACHE = 'journalin-tiles-browsed-v1';
+const GEO_CACHE = 'journalin-geo-v1';
+const KNOWN_CACHES = [SHELL_CACHE, TILE_CACHE, BROWSED_TILE_CACHE, GEO_CACHE];
+// Oldest tiles are evicted past these counts (a saved trip is at most 1500 tiles)
+const MAX_TRIP_TILES = 6000;
+const MAX_BROWSED_TILES = 1500;
+const TRIM_EVERY_PUTS = 50;
+
+const SHELL_URLS = ['/', '/index.html'];
+// Scripts, styles and fonts the page pulls from CDNs (see index.html)
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'esm.sh', 'unpkg.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+const TILE_HOST = /(^|\.)basemaps\.cartocdn\.com$/;
+const GEO_HOST = 'nominatim.openstreetmap.org';
+const TILE_FETCH_CONCURRENCY = 6;
+
+// Leaflet spreads tiles over a-d subdomains; store them under one key
+const tileCacheKey = (url) => url.replace(/\/\/[a-d]\.basemaps\.cartocdn\.com/, '//a.basemaps.cartocdn.com');
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => !KNOWN_CACHES.includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Cache keys come back in insertion order, so the oldest entries go first
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+};
+
+let browsedTilePuts = 0;
+
+// Saved trip tiles first, then recently browsed ones; only CORS (non-opaque) tiles are stored
+const tileFirst = async (request) => {
+  const key = tileCacheKey(request.url);
+  const cached = await caches.match(key, { cacheName: TILE_CACHE }) || await caches.match(key, { cacheName: BROWSED_TILE_CACHE });
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(BROWSED_TILE_CACHE);
+    await cache.put(key, response.clone());
+    if (++browsedTilePuts % TRIM_EVERY_PUTS === 0) await trimCache(BROWSED_TILE_CACHE, MAX_BROWSED_TILES);
+  }
+  return response;
+};
+
+const cacheFirst = async (cacheName, request, key = request) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(key);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') cache.put(key, response.clone());
+  return response;
+};
+
+const networkFirst = async (cacheName, request, fallbackUrl) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request) || (fallbackUrl && await cache.match(fallbackUrl));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (TILE_HOST.test(url.hostname)) {
+    event.respondWith(tileFirst(request));
+    return;
+  }
+  if (url.hostname === GEO_HOST) {
+    event.respondWith(networkFirst(GEO_CACHE, request));
+    return;
+  }
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(SHELL_CACHE, request));
+    return;
+  }
+  // Same-origin app files; API calls always go to the network
+  if (url.origin === self.location.origin && !url.pathname.startsWith('/api/')) {
+    event.respondWith(networkFirst(SHELL_CACHE, request, request.mode === 'navigate' ? '/index.html' : undefined));
+  }
+});
+
+// App files and CDN modules the page loaded before this worker controlled it
+const isShellUrl = (url) =>
+  CDN_HOSTS.includes(url.hostname) ||
+  (url.origin === self.location.origin && !url.pathname.startsWith('/api/') && !url.pathname.startsWith('/__fixtures/'));
+
+const precacheShell = async (urls) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const shellUrls = Array.from(new Set(urls)).filter(raw => {
+    try {
+      return isShellUrl(new URL(raw));
+    } catch (error) {
+      return false;
+    }
+  });
+  await Promise.all(shellUrls.map(async (url) => {
+    try {
+      if (await cache.match(url)) return;
+      const response = await fetch(url);
+      if (response.ok) await cache.put(url, response);
+    } catch (error) {
+      // Offline or blocked by CORS; it is cached the next time the page fetches it
+    }
+  }));
+};
+
+const precacheTiles = async (urls, port) => {
+  const cache = await caches.open(TILE_CACHE);
+  let done = 0;
+  let failed = 0;
+  let cursor = 0;
+  const worker = async () => {
+    while (cursor < urls.length) {
+      const url = urls[cursor++];
+      const key = tileCacheKey(url);
+      try {
+        if (!(await cache.match(key))) {
+          const response = await fetch(url, { mode: 'cors' });
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          await cache.put(key, response);
+        }
+      } catch (error) {
+        failed++;
+      }
+      done++;
+      if (done % 20 === 0 || done === urls.length) port.postMessage({ type: 'progress', done, total: urls.length });
+    }
+  };
+  await Promise.all(Array.from({ length: TILE_FETCH_CONCURRENCY }, worker));
+  await trimCache(TILE_CACHE, MAX_TRIP_TILES);
+  port.postMessage({ type: 'done', cached: urls.length - failed, failed });
+};
+
+self.addEventListener('message', (event) => {
+  const { data } = event;
+  const port = event.ports[0];
+  if (data?.type === 'PRECACHE_TILES' && Array.isArray(data.urls) && port) {
+    event.waitUntil(precacheTiles(data.urls, port));
+  }
+  if (data?.type === 'PRECACHE_SHELL' && Array.isArray(data.urls)) {
+    event.waitUntil(precacheShell(data.urls));
+  }
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { DayPlan, ItineraryItem } from '../types.ts';
+import { mergeBookingsIntoPlan, parseConfirmationText } from './bookingImporter.ts';
+
+const stop = (id: string, title: string, time: string, type: ItineraryItem['type'] = 'activity'): ItineraryItem => ({
+  id,
+  title,
+  description: '',
+  visualPrompt: '',
+  time,
+  startTime: time,
+  type,
+  location: { lat: 35.67, lng: 139.76 }
+});
+
+describe('parseConfirmationText', () => {
+  it('classes a dinner reservation as food even when it mentions nights', () => {
+    const { bookings } = parseConfirmationText(
+      'Your dinner reservation at Sushi Saito\nOne of our two nights of omakase service\nDate: 2026-11-02 at 19:00'
+    );
+    expect(bookings).toHaveLength(1);
+    expect(bookings[0].item.type).toBe('food');
+  });
+
+  it('still reads a night count alone as a stay', () => {
+    const { bookings } = parseConfirmationText('Kyoto Machiya\n3 nights\nArrive: 2026-11-02\nDepart: 2026-11-05');
+    expect(bookings[0]?.item.type).toBe('hotel');
+  });
+});
+
+describe('mergeBookingsIntoPlan', () => {
+  const day: DayPlan = {
+    date: '2026-11-02',
+    items: [
+      stop('a', 'Tsukiji Outer Market', '09:00', 'food'),
+      stop('b', 'Ginza Six', '13:00'),
+      stop('c', 'すきやばし次郎 銀座本店', '19:00', 'food')
+    ]
+  };
+
+  it('replaces only the stop with the same non-Latin title', () => {
+    const booking = { date: '2026-11-02', item: { ...stop('booking-1', 'すきやばし次郎', '19:30', 'food'), pinned: true } };
+    const [merged] = mergeBookingsIntoPlan([day], [booking]);
+    expect(merged.items.map(item => item.id)).toEqual(['a', 'b', 'booking-1']);
+  });
+
+  it('never matches on a title that normalizes to nothing', () => {
+    const booking = { date: '2026-11-02', item: { ...stop('booking-2', '★ ★ ★', '21:00'), pinned: true } };
+    const [merged] = mergeBookingsIntoPlan([day], [booking]);
+    expect(merged.items.map(item => item.id)).toEqual(['a', 'b', 'c', 'booking-2']);
+  });
+});
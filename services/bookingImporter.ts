@@ -0,0 +1,394 @@
+import { DayPlan, ImportedBooking, ItineraryItem } from "../types.ts";
+import { parseTimeToMinutes, formatMinutesToTime } from "./timeline.ts";
+
+const DEFAULT_BOOKING_MINUTES = 90;
+const HOTEL_CHECK_IN = '15:00';
+const HOTEL_CHECK_OUT = '11:00';
+const HOTEL_HANDOVER_MINUTES = 30;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const TYPE_KEYWORDS: { type: ItineraryItem['type']; pattern: RegExp }[] = [
+  { type: 'transit', pattern: /\b(flight|airline|airways|boarding|departure|gate|train|rail|shinkansen|eurostar|bus|coach|ferry|transfer|pnr)\b/i },
+  { type: 'hotel', pattern: /\b(hotel|hostel|inn|ryokan|resort|airbnb|apartment|accommodation|check[- ]?in|check[- ]?out|your stay)\b/i },
+  { type: 'food', pattern: /\b(restaurant|dinner|lunch|breakfast|brunch|bistro|cafe|café|table for|opentable|resy|tabelog|omakase|tasting menu|reservation|party of)\b/i },
+  // A bare night count only means a stay once nothing above claimed the text
+  { type: 'hotel', pattern: /\bnights?\b/i }
+];
+
+export interface BookingImportResult {
+  bookings: ImportedBooking[];
+  warnings: string[];
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`;
+
+const classifyBooking = (text: string): ItineraryItem['type'] =>
+  TYPE_KEYWORDS.find(entry => entry.pattern.test(text))?.type ?? 'activity';
+
+/**
+ * Short stable hash so re-importing the same file yields the same item ids.
+ */
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const bookingId = (date: string, startTime: string, title: string) => `booking-${hashText(`${date}|${startTime}|${title}`)}`;
+
+const buildBooking = (
+  source: ImportedBooking['source'],
+  date: string,
+  start: number,
+  end: number,
+  fields: { title: string; description?: string; type: ItineraryItem['type']; url?: string; location?: { lat: number; lng: number } },
+  startsAt?: number
+): ImportedBooking => {
+  // Bookings that run past midnight (overnight flights) are clipped to the day they start on
+  const clippedEnd = Math.min(Math.max(end, start + 15), 24 * 60 - 1);
+  const startTime = formatMinutesToTime(start);
+  const endTime = formatMinutesToTime(clippedEnd);
+  return {
+    date,
+    source,
+    ...(startsAt !== undefined ? { startsAt } : {}),
+    item: {
+      id: bookingId(date, startTime, fields.title),
+      time: startTime,
+      startTime,
+      endTime,
+      duration: `${clippedEnd - start} min`,
+      title: fields.title,
+      description: fields.description || 'Imported booking.',
+      visualPrompt: fields.title,
+      type: fields.type,
+      url: fields.url,
+      location: fields.location,
+      pinned: true
+    }
+  };
+};
+
+/**
+ * Expands a hotel stay into a check-in stop on arrival day and a check-out
+ * stop on departure day; everything else becomes a single booking.
+ */
+const buildBookingsForStay = (
+  source: ImportedBooking['source'],
+  start: { date: string; minutes: number | null; instant?: number },
+  end: { date: string; minutes: number | null; instant?: number } | null,
+  fields: { title: string; description?: string; type: ItineraryItem['type']; url?: string; location?: { lat: number; lng: number } }
+) => {
+  if (fields.type === 'hotel' && end && end.date !== start.date) {
+    const checkIn = start.minutes ?? parseTimeToMinutes(HOTEL_CHECK_IN)!;
+    const checkOut = end.minutes ?? parseTimeToMinutes(HOTEL_CHECK_OUT)!;
+    return [
+      buildBooking(source, start.date, checkIn, checkIn + HOTEL_HANDOVER_MINUTES, { ...fields, title: `Check in · ${fields.title}` }, start.instant),
+      buildBooking(source, end.date, checkOut, checkOut + HOTEL_HANDOVER_MINUTES, { ...fields, title: `Check out · ${fields.title}` }, end.instant)
+    ];
+  }
+  if (start.minutes === null) return [];
+  const endMinutes = end && end.date === start.date && end.minutes !== null
+    ? end.minutes
+    : end && end.date !== start.date
+      ? 24 * 60
+      : start.minutes + DEFAULT_BOOKING_MINUTES;
+  return [buildBooking(source, start.date, start.minutes, endMinutes, fields, start.instant)];
+};
+
+// --- iCalendar --------------------------------------------------------------
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+const unescapeText = (value: string) =>
+  value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\([,;\\])/g, '$1');
+
+/**
+ * Wall-clock date/minutes of a UTC instant in the given zone.
+ */
+const utcToZonedWallTime = (utcMs: number, timeZone: string) => {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+  const parts: Record<string, string> = {};
+  formatter.formatToParts(new Date(utcMs)).forEach(part => {
+    parts[part.type] = part.value;
+  });
+  return {
+    date: toIsoDate(+parts.year, +parts.month, +parts.day),
+    minutes: +parts.hour * 60 + +parts.minute
+  };
+};
+
+/**
+ * UTC instant of a wall-clock time in the given zone. Two passes settle the
+ * offset around DST changes.
+ */
+const zonedWallTimeToUtc = (year: number, month: number, day: number, minutes: number, timeZone: string) => {
+  const wallMs = Date.UTC(year, month - 1, day, 0, minutes);
+  let utcMs = wallMs;
+  for (let pass = 0; pass < 2; pass++) {
+    const wall = utcToZonedWallTime(utcMs, timeZone);
+    const [wallYear, wallMonth, wallDay] = wall.date.split('-').map(Number);
+    utcMs -= Date.UTC(wallYear, wallMonth - 1, wallDay, 0, wall.minutes) - wallMs;
+  }
+  return utcMs;
+};
+
+/**
+ * Reads a DTSTART/DTEND value. UTC and TZID times are instants, shown in
+ * `timeZone` (the browser's when the trip's zone is not known yet) and kept
+ * as `instant` for later. Floating times are taken as written. Date-only
+ * values have no time of day.
+ */
+const parseIcsDateTime = (property: IcsProperty | undefined, timeZone: string) => {
+  if (!property) return null;
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, , utc] = match;
+  if (hours === undefined) {
+    return { date: toIsoDate(+year, +month, +day), minutes: null };
+  }
+  const wallMinutes = +hours * 60 + +minutes;
+  try {
+    const instant = utc
+      ? Date.UTC(+year, +month - 1, +day, 0, wallMinutes)
+      : property.params.TZID
+        ? zonedWallTimeToUtc(+year, +month, +day, wallMinutes, property.params.TZID)
+        : undefined;
+    if (instant !== undefined) return { ...utcToZonedWallTime(instant, timeZone), instant };
+  } catch {
+    // Unknown zone name: fall through and keep the wall clock as written
+  }
+  return { date: toIsoDate(+year, +month, +day), minutes: wallMinutes };
+};
+
+const parseContentLine = (line: string) => {
+  const colon = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  if (colon === -1) return null;
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const [key, value = ''] = part.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), property: { params, value: line.slice(colon + 1) } };
+};
+
+/**
+ * Converts the VEVENTs of an iCalendar file into pinned bookings.
+ * `timeZone` is the destination's zone, used for UTC and TZID events; without
+ * it they are shown in the browser's zone until `localizeBookings` runs.
+ */
+export const parseIcsBookings = (content: string, timeZone?: string): BookingImportResult => {
+  const zone = timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const bookings: ImportedBooking[] = [];
+  const warnings: string[] = [];
+  let current: Record<string, IcsProperty> | null = null;
+
+  lines.forEach(line => {
+    if (/^BEGIN:VEVENT$/i.test(line.trim())) {
+      current = {};
+      return;
+    }
+    if (/^END:VEVENT$/i.test(line.trim())) {
+      const event: Record<string, IcsProperty> = current ?? {};
+      current = null;
+      const title = unescapeText(event.SUMMARY?.value ?? '').trim() || 'Imported booking';
+      const start = parseIcsDateTime(event.DTSTART, zone);
+      if (!start) {
+        warnings.push(`Skipped "${title}": no readable start time.`);
+        return;
+      }
+      const description = unescapeText([event.LOCATION?.value, event.DESCRIPTION?.value].filter(Boolean).join('\n')).trim();
+      const geo = event.GEO?.value.split(/[;,]/).map(Number);
+      const created = buildBookingsForStay('ics', start, parseIcsDateTime(event.DTEND, zone), {
+        title,
+        description,
+        type: classifyBooking(`${title} ${description} ${event.CATEGORIES?.value ?? ''}`),
+        url: event.URL?.value,
+        location: geo && geo.length === 2 && geo.every(n => !isNaN(n)) ? { lat: geo[0], lng: geo[1] } : undefined
+      });
+      if (created.length === 0) warnings.push(`Skipped "${title}": all-day events need a time.`);
+      bookings.push(...created);
+      return;
+    }
+    if (!current) return;
+    const parsed = parseContentLine(line);
+    if (parsed && !(parsed.name in current)) current[parsed.name] = parsed.property;
+  });
+
+  return { bookings, warnings };
+};
+
+/**
+ * Moves zoned bookings to their wall-clock time in `timeZone`, keeping each
+ * booking's length. Bookings without an instant are returned unchanged.
+ */
+export const localizeBookings = (bookings: ImportedBooking[], timeZone?: string): ImportedBooking[] => {
+  if (!timeZone) return bookings;
+  return bookings.map(booking => {
+    if (booking.startsAt === undefined) return booking;
+    let wall: { date: string; minutes: number };
+    try {
+      wall = utcToZonedWallTime(booking.startsAt, timeZone);
+    } catch {
+      return booking;
+    }
+    const start = parseTimeToMinutes(booking.item.startTime) ?? wall.minutes;
+    const length = (parseTimeToMinutes(booking.item.endTime) ?? start) - start;
+    const moved = buildBooking(booking.source, wall.date, wall.minutes, wall.minutes + length, booking.item, booking.startsAt);
+    return { ...moved, item: { ...booking.item, ...moved.item, description: booking.item.description } };
+  });
+};
+
+// --- Email confirmations ----------------------------------------------------
+
+const DATE_PATTERNS: { pattern: RegExp; read: (m: RegExpMatchArray) => [number, number, number] }[] = [
+  { pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/, read: m => [+m[1], +m[2], +m[3]] },
+  { pattern: /\b(\d{1,2})(?:st|nd|rd|th)?\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?,?\s+(\d{4})\b/i, read: m => [+m[3], MONTHS.indexOf(m[2].toLowerCase()) + 1, +m[1]] },
+  { pattern: /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/i, read: m => [+m[3], MONTHS.indexOf(m[1].toLowerCase()) + 1, +m[2]] }
+];
+
+const TIME_PATTERN = /\b(\d{1,2}:\d{2}(?:\s*[ap]m)?|\d{1,2}\s*[ap]m)\b/gi;
+
+const TITLE_PATTERNS = [
+  /^(?:restaurant|hotel|property|venue|event|tour|reservation at|booking at|your table at|staying at)\s*[:\-]?\s*(.+)$/im,
+  /\b(?:reservation|table|booking|stay) at\s+([^\n.,]+)/i,
+  /\b((?:flight|train)\s+[A-Z0-9]{2}\s?\d{1,4})\b/i
+];
+
+const findDate = (text: string) => {
+  for (const { pattern, read } of DATE_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      const [year, month, day] = read(match);
+      return { date: toIsoDate(year, month, day), index: match.index ?? 0 };
+    }
+  }
+  return null;
+};
+
+const findLabelledDate = (text: string, label: RegExp) => {
+  const line = text.split('\n').find(l => label.test(l));
+  return line ? findDate(line)?.date ?? null : null;
+};
+
+const findTimes = (text: string) =>
+  Array.from(text.matchAll(TIME_PATTERN))
+    .map(match => parseTimeToMinutes(match[1].replace(/\s+/g, '')))
+    .filter((value): value is number => value !== null);
+
+const findTitle = (text: string) => {
+  for (const pattern of TITLE_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return match[1].trim();
+  }
+  return text.split('\n').map(line => line.trim()).find(Boolean)?.replace(/^(subject|re|fwd?)\s*:\s*/i, '') ?? 'Imported booking';
+};
+
+/**
+ * Best-effort reader for pasted confirmation emails. Separate confirmations
+ * with a line of dashes; each needs at least a recognizable date.
+ */
+export const parseConfirmationText = (content: string): BookingImportResult => {
+  const bookings: ImportedBooking[] = [];
+  const warnings: string[] = [];
+
+  content.split(/\n\s*[-=_]{3,}\s*\n/).map(block => block.trim()).filter(Boolean).forEach(block => {
+    const title = findTitle(block);
+    const type = classifyBooking(block);
+    const checkIn = findLabelledDate(block, /check[- ]?in|arriv/i);
+    const checkOut = findLabelledDate(block, /check[- ]?out|depart/i);
+    const firstDate = findDate(block);
+    if (!firstDate) {
+      warnings.push(`Skipped "${title}": no date found.`);
+      return;
+    }
+    const times = findTimes(block);
+    const start = { date: checkIn ?? firstDate.date, minutes: type === 'hotel' ? null : times[0] ?? null };
+    const end = type === 'hotel' && checkOut
+      ? { date: checkOut, minutes: null }
+      : times[1] !== undefined && times[1] > times[0] ? { date: start.date, minutes: times[1] } : null;
+    const created = buildBookingsForStay('email', start, end, {
+      title,
+      description: block.split('\n').slice(0, 4).join(' ').slice(0, 240),
+      type
+    });
+    if (created.length === 0) warnings.push(`Skipped "${title}": no time found.`);
+    bookings.push(...created);
+  });
+
+  return { bookings, warnings };
+};
+
+// --- Planning ---------------------------------------------------------------
+
+/**
+ * Describes bookings as hard constraints for the generation prompt.
+ */
+export const buildBookingConstraints = (bookings: ImportedBooking[]) => {
+  if (bookings.length === 0) return '';
+  const lines = [...bookings]
+    .sort((a, b) => `${a.date} ${a.item.startTime}`.localeCompare(`${b.date} ${b.item.startTime}`))
+    // The destination's zone is not known before generation, so zoned bookings also give their UTC start
+    .map(({ date, item, startsAt }) =>
+      `- ${date} ${item.startTime}-${item.endTime} [${item.type}] ${item.title}${startsAt !== undefined ? ` (starts ${new Date(startsAt).toISOString().slice(0, 16)}Z; use the destination's local time)` : ''}`);
+  return `FIXED BOOKINGS (already reserved; include each one exactly at this date and time and plan the rest of the day around it):\n${lines.join('\n')}`;
+};
+
+const GENERIC_TITLE_WORDS = new Set(['check', 'hotel', 'flight', 'train', 'dinner', 'lunch', 'breakfast', 'brunch', 'restaurant', 'reservation', 'booking', 'the', 'and', 'from']);
+
+const normalizeTitle = (title: string) =>
+  title.toLowerCase().replace(/^check (in|out) · /, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const distinctiveWords = (title: string) =>
+  normalizeTitle(title).split(' ').filter(word => word.length >= 3 && !GENERIC_TITLE_WORDS.has(word));
+
+/**
+ * Whether a generated stop is the model's own rendition of a booking.
+ */
+const isSameBooking = (item: ItineraryItem, booking: ItineraryItem) => {
+  const title = normalizeTitle(item.title);
+  const bookingTitle = normalizeTitle(booking.title);
+  // An empty title (punctuation only) would be a substring of everything
+  if (title && bookingTitle && (title.includes(bookingTitle) || bookingTitle.includes(title))) return true;
+  if (item.type !== booking.type) return false;
+  const bookingWords = distinctiveWords(booking.title);
+  return distinctiveWords(item.title).some(word => bookingWords.includes(word));
+};
+
+/**
+ * Places bookings on their DayPlan as pinned items, replacing any stop the
+ * model created for the same booking and keeping the day in time order.
+ */
+export const mergeBookingsIntoPlan = (plan: DayPlan[], bookings: Pick<ImportedBooking, 'date' | 'item'>[]) =>
+  plan.map(day => {
+    const dayBookings = bookings.filter(booking => booking.date === day.date);
+    if (dayBookings.length === 0) return day;
+    const items = day.items.filter(item => !dayBookings.some(booking => isSameBooking(item, booking.item)));
+    dayBookings.forEach(({ item }) => {
+      const start = parseTimeToMinutes(item.startTime) ?? 0;
+      const insertAt = items.findIndex(existing => (parseTimeToMinutes(existing.startTime || existing.time) ?? -1) > start);
+      items.splice(insertAt === -1 ? items.length : insertAt, 0, { ...item });
+    });
+    return { ...day, items };
+  });
@@ -0,0 +1,297 @@
+import { DayPlan, EditOperation, ItineraryItem } from "../types.ts";
+import { DEFAULT_DAY_START, formatDuration, formatMinutesToTime, parseDurationMinutes, parseTimeToMinutes } from "./timeline.ts";
+
+export interface EditCommandInterpretation {
+  operations: EditOperation[];
+  explanation: string;
+}
+
+export interface EditOperationsResult {
+  plan: DayPlan[];
+  dayStartTimes: Record<string, string>;
+  touchedDates: string[];
+  // Human-readable lines for the preview, in the order they were applied
+  applied: string[];
+  skipped: string[];
+}
+
+const ITEM_TYPES: ItineraryItem['type'][] = ['hotel', 'food', 'activity', 'transit'];
+
+const clampDuration = (minutes: number) => Math.max(15, Math.min(600, Math.round(minutes)));
+
+const isTime = (value: unknown): value is string => typeof value === 'string' && parseTimeToMinutes(value) !== null;
+
+// The model answers with "START" for "put it first" and "" for "append"
+const readAnchor = (value: unknown): string | null | undefined => {
+  if (value === 'START') return null;
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+/**
+ * Maps the flat operation objects returned by the interpreter onto the
+ * EditOperation union, dropping anything malformed.
+ */
+export const normalizeEditOperations = (raw: any[]): EditOperation[] =>
+  (raw ?? []).flatMap((entry: any): EditOperation[] => {
+    switch (entry?.op) {
+      case 'insert': {
+        if (typeof entry.date !== 'string' || typeof entry.title !== 'string' || !entry.title.trim()) return [];
+        return [{
+          op: 'insert',
+          date: entry.date,
+          afterItemId: readAnchor(entry.afterItemId),
+          item: {
+            title: entry.title.trim(),
+            type: ITEM_TYPES.includes(entry.type) ? entry.type : 'activity',
+            description: typeof entry.description === 'string' ? entry.description : undefined,
+            duration: entry.durationMinutes > 0 ? formatDuration(clampDuration(entry.durationMinutes)) : undefined,
+            startTime: isTime(entry.startTime) ? entry.startTime : undefined
+          }
+        }];
+      }
+      case 'move':
+        if (typeof entry.itemId !== 'string') return [];
+        return [{
+          op: 'move',
+          itemId: entry.itemId,
+          toDate: typeof entry.toDate === 'string' && entry.toDate ? entry.toDate : undefined,
+          afterItemId: readAnchor(entry.afterItemId)
+        }];
+      case 'delete':
+        return typeof entry.itemId === 'string' ? [{ op: 'delete', itemId: entry.itemId }] : [];
+      case 'retime': {
+        if (typeof entry.itemId !== 'string') return [];
+        const startTime = isTime(entry.startTime) ? entry.startTime : undefined;
+        const durationMinutes = entry.durationMinutes > 0 ? entry.durationMinutes : undefined;
+        if (!startTime && !durationMinutes) return [];
+        return [{ op: 'retime', itemId: entry.itemId, startTime, durationMinutes }];
+      }
+      case 'swapDays':
+        if (typeof entry.date !== 'string' || typeof entry.otherDate !== 'string') return [];
+        return [{ op: 'swapDays', date: entry.date, otherDate: entry.otherDate }];
+      case 'shiftDay':
+        if (typeof entry.date !== 'string' || !Number.isFinite(entry.minutes) || entry.minutes === 0) return [];
+        return [{ op: 'shiftDay', date: entry.date, minutes: Math.round(entry.minutes) }];
+      default:
+        return [];
+    }
+  });
+
+const itemStartMinutes = (item: ItineraryItem) => parseTimeToMinutes(item.startTime || item.time);
+
+/**
+ * Index to insert at: after `afterItemId`, first for null, otherwise in
+ * start-time order when the new stop has one, else at the end.
+ */
+const resolveInsertIndex = (items: ItineraryItem[], afterItemId: string | null | undefined, startTime?: string) => {
+  if (afterItemId === null) return 0;
+  if (afterItemId) {
+    const anchor = items.findIndex(item => item.id === afterItemId);
+    if (anchor !== -1) return anchor + 1;
+  }
+  const start = parseTimeToMinutes(startTime);
+  if (start !== null) {
+    const later = items.findIndex(item => (itemStartMinutes(item) ?? -1) > start);
+    if (later !== -1) return later;
+  }
+  return items.length;
+};
+
+const pinAt = (item: ItineraryItem, startTime: string, minutes: number): ItineraryItem => {
+  const start = parseTimeToMinutes(startTime) ?? 0;
+  const normalized = formatMinutesToTime(start);
+  return {
+    ...item,
+    pinned: true,
+    time: normalized,
+    startTime: normalized,
+    endTime: formatMinutesToTime(start + minutes),
+    duration: formatDuration(minutes)
+  };
+};
+
+const dayLabel = (plan: DayPlan[], date: string) => {
+  const index = plan.findIndex(day => day.date === date);
+  return index === -1 ? date : `Day ${index + 1}`;
+};
+
+/**
+ * Applies operations in order to a copy of the plan. Operations that reference
+ * unknown days or stops are reported in `skipped` instead of failing the batch.
+ * Stops given an explicit start time are pinned there.
+ */
+export const applyEditOperations = (
+  plan: DayPlan[],
+  dayStartTimes: Record<string, string>,
+  operations: EditOperation[]
+): EditOperationsResult => {
+  const days = new Map(plan.map(day => [day.date, [...day.items]]));
+  const starts = { ...dayStartTimes };
+  const touched = new Set<string>();
+  const applied: string[] = [];
+  const skipped: string[] = [];
+  const stamp = Date.now();
+
+  const locate = (itemId: string) => {
+    for (const [date, items] of days) {
+      const index = items.findIndex(item => item.id === itemId);
+      if (index !== -1) return { date, items, index, item: items[index] };
+    }
+    return null;
+  };
+
+  operations.forEach((operation, opIndex) => {
+    switch (operation.op) {
+      case 'insert': {
+        const items = days.get(operation.date);
+        if (!items) {
+          skipped.push(`Add ${operation.item.title}: ${operation.date} is not part of the trip`);
+          return;
+        }
+        const minutes = parseDurationMinutes(operation.item.duration) ?? 60;
+        let item: ItineraryItem = {
+          id: `${operation.date}-cmd-${stamp}-${opIndex}`,
+          time: operation.item.startTime ?? '',
+          title: operation.item.title,
+          description: operation.item.description ?? '',
+          visualPrompt: operation.item.title,
+          type: operation.item.type,
+          duration: formatDuration(minutes)
+        };
+        if (operation.item.startTime) item = pinAt(item, operation.item.startTime, minutes);
+        items.splice(resolveInsertIndex(items, operation.afterItemId, operation.item.startTime), 0, item);
+        touched.add(operation.date);
+        applied.push(`Add ${item.title} to ${dayLabel(plan, operation.date)}${item.pinned ? ` at ${item.startTime}` : ''}`);
+        return;
+      }
+      case 'move': {
+        const found = locate(operation.itemId);
+        const toDate = operation.toDate ?? found?.date;
+        const target = toDate ? days.get(toDate) : undefined;
+        if (!found || !toDate || !target) {
+          skipped.push(found ? `Move ${found.item.title}: ${operation.toDate} is not part of the trip` : `Move: unknown stop ${operation.itemId}`);
+          return;
+        }
+        found.items.splice(found.index, 1);
+        target.splice(resolveInsertIndex(target, operation.afterItemId), 0, found.item);
+        touched.add(found.date);
+        touched.add(toDate);
+        applied.push(toDate === found.date
+          ? `Move ${found.item.title} within ${dayLabel(plan, toDate)}`
+          : `Move ${found.item.title} to ${dayLabel(plan, toDate)}`);
+        return;
+      }
+      case 'delete': {
+        const found = locate(operation.itemId);
+        if (!found) {
+          skipped.push(`Delete: unknown stop ${operation.itemId}`);
+          return;
+        }
+        found.items.splice(found.index, 1);
+        touched.add(found.date);
+        applied.push(`Delete ${found.item.title}`);
+        return;
+      }
+      case 'retime': {
+        const found = locate(operation.itemId);
+        if (!found) {
+          skipped.push(`Retime: unknown stop ${operation.itemId}`);
+          return;
+        }
+        const current = found.item;
+        const minutes = clampDuration(operation.durationMinutes ?? parseDurationMinutes(current.duration) ?? 60);
+        let updated: ItineraryItem;
+        if (operation.startTime) {
+          updated = pinAt(current, operation.startTime, minutes);
+        } else {
+          // Pinned stops keep their start and stretch their end instead
+          const pinnedStart = current.pinned ? parseTimeToMinutes(current.startTime) : null;
+          updated = {
+            ...current,
+            duration: formatDuration(minutes),
+            ...(pinnedStart !== null ? { endTime: formatMinutesToTime(pinnedStart + minutes) } : {})
+          };
+        }
+        found.items[found.index] = updated;
+        touched.add(found.date);
+        applied.push(operation.startTime
+          ? `${current.title} → ${updated.startTime}–${updated.endTime}`
+          : `${current.title} → ${formatDuration(minutes)}`);
+        return;
+      }
+      case 'swapDays': {
+        const first = days.get(operation.date);
+        const second = days.get(operation.otherDate);
+        if (!first || !second || operation.date === operation.otherDate) {
+          skipped.push(`Swap ${operation.date} and ${operation.otherDate}: both must be different trip days`);
+          return;
+        }
+        days.set(operation.date, second);
+        days.set(operation.otherDate, first);
+        const firstStart = starts[operation.date];
+        const secondStart = starts[operation.otherDate];
+        starts[operation.date] = secondStart ?? DEFAULT_DAY_START;
+        starts[operation.otherDate] = firstStart ?? DEFAULT_DAY_START;
+        touched.add(operation.date);
+        touched.add(operation.otherDate);
+        applied.push(`Swap ${dayLabel(plan, operation.date)} and ${dayLabel(plan, operation.otherDate)}`);
+        return;
+      }
+      case 'shiftDay': {
+        if (!days.has(operation.date)) {
+          skipped.push(`Shift: ${operation.date} is not part of the trip`);
+          return;
+        }
+        const base = parseTimeToMinutes(starts[operation.date] ?? DEFAULT_DAY_START) ?? 9 * 60;
+        starts[operation.date] = formatMinutesToTime(base + operation.minutes);
+        touched.add(operation.date);
+        applied.push(`${operation.minutes > 0 ? 'Delay' : 'Advance'} ${dayLabel(plan, operation.date)} by ${Math.abs(operation.minutes)} min (starts ${starts[operation.date]})`);
+        return;
+      }
+    }
+  });
+
+  return {
+    plan: plan.map(day => touched.has(day.date) ? { ...day, items: days.get(day.date) ?? day.items } : day),
+    dayStartTimes: starts,
+    touchedDates: plan.map(day => day.date).filter(date => touched.has(date)),
+    applied,
+    skipped
+  };
+};
+
+const findByKeyword = (day: DayPlan, keyword: string) =>
+  day.items.find(item => item.title.toLowerCase().includes(keyword.trim().toLowerCase()));
+
+/**
+ * Offline fallback for the command bar: the original delete / change duration
+ * / delay phrasings, mapped onto operations for the active day.
+ */
+export const parseEditCommandLocally = (command: string, day: DayPlan): EditCommandInterpretation | null => {
+  const deleteMatch = command.match(/delete\s+(.+)/i);
+  const durationMatch = command.match(/change\s+(.+)\s+to\s+(.+)/i);
+  const shiftMatch = command.match(/delay\s+all\s+by\s*(\d+)?\s*(h|hour|hours|m|min|minutes)?/i);
+
+  if (deleteMatch) {
+    const item = findByKeyword(day, deleteMatch[1]);
+    if (!item) return { operations: [], explanation: `Could not find an activity containing "${deleteMatch[1].trim()}".` };
+    return { operations: [{ op: 'delete', itemId: item.id }], explanation: `Deleting ${item.title}.` };
+  }
+
+  if (durationMatch) {
+    const minutes = parseDurationMinutes(durationMatch[2].trim());
+    if (!minutes) return { operations: [], explanation: 'Could not recognize the duration. Try "90 min" or "2 hours".' };
+    const item = findByKeyword(day, durationMatch[1]);
+    if (!item) return { operations: [], explanation: `Could not find an activity containing "${durationMatch[1].trim()}".` };
+    return { operations: [{ op: 'retime', itemId: item.id, durationMinutes: minutes }], explanation: `Changing ${item.title} to ${formatDuration(minutes)}.` };
+  }
+
+  if (shiftMatch) {
+    const amount = shiftMatch[1] ? parseInt(shiftMatch[1], 10) : 1;
+    const unit = shiftMatch[2] || 'hour';
+    const minutes = unit.includes('hour') || unit.includes('h') ? amount * 60 : amount;
+    return { operations: [{ op: 'shiftDay', date: day.date, minutes }], explanation: `Delaying the day by ${minutes} minutes.` };
+  }
+
+  return null;
+};
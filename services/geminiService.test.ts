@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { regenerateDay } from './geminiService.ts';
+import { JsonRequest, LlmProvider, setLlmProvider } from './llmProvider.ts';
+import { BudgetType, DayPlan, TripConfig, UserProfile } from '../types.ts';
+
+const profile = { pace: 50, interests: [], budget: BudgetType.COST_EFFECTIVE } as unknown as UserProfile;
+const config = {
+  destination: 'Kyoto',
+  startDate: '2026-11-02',
+  endDate: '2026-11-03',
+  accommodation: 'Budget Hotel',
+  transport: 'Public Transit',
+  customNote: ''
+} as TripConfig;
+const plan: DayPlan[] = [{ date: '2026-11-02', items: [] }];
+
+// Answers each JSON request with the next of `answers`
+const scriptedProvider = (answers: string[]) => {
+  const requests: JsonRequest[] = [];
+  const provider: LlmProvider = {
+    name: 'scripted',
+    generateJson: vi.fn(async (request: JsonRequest) => {
+      requests.push(request);
+      return answers[requests.length - 1] ?? '';
+    }),
+    generateImage: vi.fn(async () => null)
+  };
+  setLlmProvider(provider);
+  return requests;
+};
+
+afterEach(() => {
+  setLlmProvider(null);
+  vi.restoreAllMocks();
+});
+
+describe('model output repair', () => {
+  it('does not ask for a repair when the first answer is valid', async () => {
+    const requests = scriptedProvider([JSON.stringify({ date: '2026-11-02', items: [{ title: 'Gion' }] })]);
+    const day = await regenerateDay(profile, config, plan, '2026-11-02');
+    expect(requests).toHaveLength(1);
+    expect(day.items.map(item => item.title)).toEqual(['Gion']);
+  });
+
+  it('sends one repair request listing the problems, then uses the repaired answer', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const requests = scriptedProvider([
+      JSON.stringify({ date: '2026-11-02', items: [{ type: 'food' }] }),
+      JSON.stringify({ date: '2026-11-02', items: [{ title: 'Nishiki Market', type: 'food' }] })
+    ]);
+    const day = await regenerateDay(profile, config, plan, '2026-11-02');
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1].task).toBe('day');
+    expect(requests[1].prompt).toContain('- items[0].title is missing');
+    expect(requests[1].prompt).toContain(requests[0].prompt.trim());
+    expect(day.items.map(item => item.title)).toEqual(['Nishiki Market']);
+  });
+
+  it('fails when the repaired answer is still invalid', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const requests = scriptedProvider(['not json', JSON.stringify({ date: '2026-11-02', items: [] })]);
+    await expect(regenerateDay(profile, config, plan, '2026-11-02')).rejects.toThrow(/still invalid after repair: items is empty/);
+    expect(requests).toHaveLength(2);
+  });
+});
@@ -1,6 +1,11 @@
 
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { UserProfile, TripConfig, GenerationResult, InquiryResult, ItineraryItem, ItineraryRiskResult } from "../types.ts";
+import { UserProfile, TripConfig, GenerationResult, InquiryResult, ItineraryItem, ItineraryRiskResult, DayPlan } from "../types.ts";
+import { extractCompleteArrayItems, extractCompleteString } from "./partialJson.ts";
+import { EditCommandInterpretation, normalizeEditOperations } from "./editOperations.ts";
+import { analyzeRisksLocally, mergeRiskItems } from "./riskEngine.ts";
+import { travelModeForTransport } from "./travelTime.ts";
+import { generateJson, generateImage, JsonRequest } from "./llmProvider.ts";
+import { parseAndValidate, validateAlternatives, validateDayPlan, validateDays, validateGenerationResult, validateInquiryResult, validateRiskResult, ValidationResult } from "./validation.ts";
 
 const sanitizeJson = (text: string): string => {
   return text.replace(/```json/g, '').replace(/```/g, '').trim();
@@ -22,7 +27,7 @@ async function withRetry<T>(fn: () => Promise<T>, maxRetries = 3, initialDelay =
       const isRateLimited = errorCode === 429;
       
       if ((isOverloaded || isRateLimited) && i < maxRetries - 1) {
-        console.warn(`Gemini API busy (Status ${errorCode}). Retrying in ${delay}ms... (Attempt ${i + 1}/${maxRetries})`);
+        console.warn(`Model API busy (Status ${errorCode}). Retrying in ${delay}ms... (Attempt ${i + 1}/${maxRetries})`);
         await new Promise(resolve => setTimeout(resolve, delay));
         delay *= 2; // Exponential backoff
         continue;
@@ -33,6 +38,41 @@ async function withRetry<T>(fn: () => Promise<T>, maxRetries = 3, initialDelay =
   throw new Error('Max retries reached');
 }
 
+/**
+ * Generates, validates and coerces model output. When something cannot be
+ * coerced, the model gets one repair request listing exactly those problems;
+ * if the repaired answer still fails, this throws.
+ */
+const generateValidated = async <T,>(
+  request: JsonRequest,
+  validate: (raw: unknown) => ValidationResult<T>,
+  onPartial?: (textSoFar: string) => void
+): Promise<T> => {
+  const text = await withRetry(() => generateJson(request, onPartial));
+  const first = parseAndValidate(sanitizeJson(text), validate);
+  if (first.errors.length === 0) return first.value;
+
+  console.warn(`Model output for ${request.task} failed validation, requesting a repair:`, first.errors);
+  const repairPrompt = `
+    Your previous JSON answer to the request below has these problems:
+    ${first.errors.slice(0, 20).map(error => `- ${error}`).join("\n")}
+
+    Return the complete corrected JSON. Fix only these problems and keep everything else unchanged.
+
+    ORIGINAL REQUEST:
+    ${request.prompt}
+
+    PREVIOUS ANSWER:
+    ${text}
+  `;
+  const repaired = await withRetry(() => generateJson({ ...request, prompt: repairPrompt }));
+  const second = parseAndValidate(sanitizeJson(repaired), validate);
+  if (second.errors.length > 0) {
+    throw new Error(`Model output for ${request.task} is still invalid after repair: ${second.errors.slice(0, 5).join('; ')}`);
+  }
+  return second.value;
+};
+
 const parseTimeToMinutes = (rawTime?: string | null) => {
   if (!rawTime) return null;
   const cleaned = rawTime.trim().toLowerCase();
@@ -173,8 +213,6 @@ const resolveOperatingHoursForItems = async (items: ItineraryItem[], destination
  * Analyzes the trip for logical gaps or contradictions.
  */
 export const checkPlanFeasibility = async (profile: UserProfile, config: TripConfig): Promise<InquiryResult> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
   const systemInstruction = `
     Role: Insightful "Journalin" Travel Curator. 
     Analyze User Profile and Trip Config for logical contradictions or missing experiential details.
@@ -200,18 +238,7 @@ export const checkPlanFeasibility = async (profile: UserProfile, config: TripCon
   `;
 
   try {
-    const response = await withRetry(async () => {
-      return await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: userContent,
-        config: {
-          systemInstruction,
-          responseMimeType: "application/json",
-        }
-      });
-    });
-
-    return JSON.parse(sanitizeJson(response.text || "{\"needInquiry\": false}"));
+    return await generateValidated({ stage: 'feasibility', task: 'feasibility', prompt: userContent, systemInstruction }, validateInquiryResult);
   } catch (e) {
     console.error("Feasibility check failed after retries:", e);
     // Graceful fallback: Proceed without inquiry if the check fails
@@ -219,13 +246,54 @@ export const checkPlanFeasibility = async (profile: UserProfile, config: TripCon
   }
 };
 
+const ITINERARY_ITEM_SCHEMA = {
+  type: "OBJECT",
+  properties: {
+    id: { type: "STRING" },
+    time: { type: "STRING" },
+    title: { type: "STRING", description: "Specific name of the place, e.g. 'The Ritz-Carlton' not 'Hotel'" },
+    description: { type: "STRING" },
+    visualPrompt: { type: "STRING" },
+    type: { type: "STRING" },
+    costEstimate: { type: "STRING" },
+    duration: { type: "STRING" },
+    openTime: { type: "STRING" },
+    closeTime: { type: "STRING" },
+    location: {
+      type: "OBJECT",
+      properties: {
+        lat: { type: "NUMBER" },
+        lng: { type: "NUMBER" }
+      }
+    }
+  }
+};
+
+export interface PlanStreamProgress {
+  days: DayPlan[];
+  totalDays: number;
+  summary?: string;
+}
+
+const countTripDays = (config: TripConfig) => {
+  const start = new Date(config.startDate).getTime();
+  const end = new Date(config.endDate).getTime();
+  if (isNaN(start) || isNaN(end) || end < start) return 1;
+  return Math.round((end - start) / 86400000) + 1;
+};
+
 /**
  * Stage 2: Itinerary Generation
- * Using Gemini 3 with responseSchema for guaranteed JSON stability.
+ * Uses a response schema for JSON stability.
+ * The response is streamed; `onProgress` receives every day as soon as its
+ * JSON is complete so the planner can render before the whole trip is done.
  */
-export const generatePlan = async (profile: UserProfile, config: TripConfig, extraContext: string = ""): Promise<GenerationResult> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+export const generatePlan = async (
+  profile: UserProfile,
+  config: TripConfig,
+  extraContext: string = "",
+  onProgress?: (progress: PlanStreamProgress) => void
+): Promise<GenerationResult> => {
   const safety = [
     config.safetyToggles.filterShredder ? "avoid traps" : "",
     config.safetyToggles.bbGuard ? "high-quality stays" : "",
@@ -254,97 +322,351 @@ export const generatePlan = async (profile: UserProfile, config: TripConfig, ext
     Ensure 'openTime' and 'closeTime' are provided for all activities and restaurants (e.g. "09:00", "22:00").
   `;
 
+  const totalDays = countTripDays(config);
+
   try {
-    const response = await withRetry(async () => {
-      return await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: prompt,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
+    let reportedDays = 0;
+    return await generateValidated({
+      stage: 'generation',
+      task: 'plan',
+      prompt,
+      schema: {
+        type: "OBJECT",
+        // Summary and days first, so they can be shown while the kit is still generating
+        propertyOrdering: ["summary", "timeZone", "itinerary", "survivalKit"],
+        properties: {
+          summary: { type: "STRING" },
+          timeZone: { type: "STRING", description: "IANA time zone of the destination, e.g. 'Asia/Tokyo'" },
+          itinerary: {
+            type: "ARRAY",
+            items: {
+              type: "OBJECT",
+              properties: {
+                date: { type: "STRING" },
+                items: { type: "ARRAY", items: ITINERARY_ITEM_SCHEMA }
+              }
+            }
+          },
+          survivalKit: {
+            type: "OBJECT",
             properties: {
-              summary: { type: Type.STRING },
-              itinerary: {
-                type: Type.ARRAY,
+              essentialApps: {
+                type: "ARRAY",
                 items: {
-                  type: Type.OBJECT,
+                  type: "OBJECT",
                   properties: {
-                    date: { type: Type.STRING },
-                    items: {
-                      type: Type.ARRAY,
-                      items: {
-                        type: Type.OBJECT,
-                        properties: {
-                          id: { type: Type.STRING },
-                          time: { type: Type.STRING },
-                          title: { type: Type.STRING, description: "Specific name of the place, e.g. 'The Ritz-Carlton' not 'Hotel'" },
-                          description: { type: Type.STRING },
-                          visualPrompt: { type: Type.STRING },
-                          type: { type: Type.STRING },
-                          costEstimate: { type: Type.STRING },
-                          duration: { type: Type.STRING },
-                          openTime: { type: Type.STRING },
-                          closeTime: { type: Type.STRING },
-                          location: {
-                            type: Type.OBJECT,
-                            properties: {
-                              lat: { type: Type.NUMBER },
-                              lng: { type: Type.NUMBER }
-                            }
-                          }
-                        }
-                      }
-                    }
+                    name: { type: "STRING" },
+                    purpose: { type: "STRING" },
+                    icon: { type: "STRING", description: "A single emoji representing the app" }
                   }
                 }
               },
-              survivalKit: {
-                type: Type.OBJECT,
+              packingList: { type: "ARRAY", items: { type: "STRING" } },
+              localTips: { type: "ARRAY", items: { type: "STRING" } },
+              budgetEstimate: {
+                type: "OBJECT",
                 properties: {
-                  essentialApps: {
-                    type: Type.ARRAY,
-                    items: {
-                      type: Type.OBJECT,
-                      properties: {
-                        name: { type: Type.STRING },
-                        purpose: { type: Type.STRING },
-                        icon: { type: Type.STRING, description: "A single emoji representing the app" }
-                      }
-                    }
-                  },
-                  packingList: { type: Type.ARRAY, items: { type: Type.STRING } },
-                  localTips: { type: Type.ARRAY, items: { type: Type.STRING } },
-                  budgetEstimate: {
-                    type: Type.OBJECT,
-                    properties: {
-                      currency: { type: Type.STRING },
-                      accommodation: { type: Type.STRING },
-                      food: { type: Type.STRING },
-                      transport: { type: Type.STRING },
-                      totalEstimated: { type: Type.STRING }
-                    }
-                  }
+                  currency: { type: "STRING" },
+                  accommodation: { type: "STRING" },
+                  food: { type: "STRING" },
+                  transport: { type: "STRING" },
+                  totalEstimated: { type: "STRING" }
                 }
               }
             }
-          },
-          temperature: 0.1,
-          systemInstruction: "You are an elite travel curator. Always provide real geographical coordinates, accurate operating hours, and SPECIFIC, REAL names for all venues and hotels. Use emojis for app icons. Tailor hotel quality strictly to the budget choice: high-rated hostels for budget, landmark 5-star properties for luxury. Ensure the final schedule respects each venue’s opening/closing window, keeping at least a 15 minute buffer before close. If operating hours are uncertain, proactively shorten earlier activities or pick a realistic alternative so no item ends after close or starts before opening."
+          }
+        }
+      },
+      temperature: 0.1,
+      systemInstruction: "You are an elite travel curator. Always provide real geographical coordinates, accurate operating hours, and SPECIFIC, REAL names for all venues and hotels. Use emojis for app icons. Tailor hotel quality strictly to the budget choice: high-rated hostels for budget, landmark 5-star properties for luxury. Ensure the final schedule respects each venue’s opening/closing window, keeping at least a 15 minute buffer before close. If operating hours are uncertain, proactively shorten earlier activities or pick a realistic alternative so no item ends after close or starts before opening."
+    }, validateGenerationResult, accumulated => {
+      if (!onProgress) return;
+      // Coerced like the final result, so drafted days render safely and keep their ids
+      const days = validateDays(extractCompleteArrayItems<DayPlan>(accumulated, "itinerary")).value;
+      if (days.length > reportedDays) {
+        reportedDays = days.length;
+        onProgress({
+          days,
+          totalDays: Math.max(totalDays, days.length),
+          summary: extractCompleteString(accumulated, "summary") ?? undefined
+        });
+      }
+    });
+  } catch (error: any) {
+    console.error("Plan generation error after retries:", error);
+    throw error;
+  }
+};
+
+/**
+ * Stage 2b: Single-day Regeneration
+ * Re-plans one date with the rest of the trip as context, so the new day
+ * doesn't repeat places already visited elsewhere. Fixed-time stops on that
+ * date are passed as constraints; the caller re-pins the originals.
+ */
+export const regenerateDay = async (
+  profile: UserProfile,
+  config: TripConfig,
+  plan: DayPlan[],
+  date: string,
+  instruction: string = ""
+): Promise<DayPlan> => {
+  const targetDay = plan.find(day => day.date === date);
+  const dayIndex = plan.findIndex(day => day.date === date);
+
+  const otherDays = plan
+    .filter(day => day.date !== date)
+    .map(day => `${day.date}: ${day.items.map(item => `${item.time} ${item.title} (${item.type})`).join('; ')}`)
+    .join("\n");
+  const fixedItems = (targetDay?.items ?? [])
+    .filter(item => item.pinned)
+    .map(item => `- ${item.startTime || item.time}-${item.endTime || ''} ${item.title} (${item.type})`)
+    .join("\n");
+  const currentItems = (targetDay?.items ?? []).map(item => item.title).join(', ');
+
+  const prompt = `
+    Re-plan day ${dayIndex + 1} (${date}) of a trip to ${config.destination} (${config.startDate} to ${config.endDate}).
+    User Profile: Pace ${profile.pace}%, Interests: ${profile.interests.join(', ')}, Budget Style: ${profile.budget}.
+    Config: ${config.accommodation}, ${config.transport}. Note: "${config.customNote}".
+
+    THE REST OF THE TRIP (keep as is, do NOT repeat these places):
+    ${otherDays || "None"}
+
+    CURRENT PLAN FOR THIS DAY (offer a fresh alternative, reuse at most the hotel):
+    ${currentItems || "Empty"}
+
+    ${fixedItems ? `FIXED BOOKINGS ON THIS DAY (include exactly at these times):\n${fixedItems}` : ""}
+    ${instruction ? `TRAVELER REQUEST: ${instruction}` : ""}
+
+    Return only this day, with date "${date}", real venue names, lat/lng coordinates and openTime/closeTime for every activity and restaurant.
+  `;
+
+  try {
+    const day = await generateValidated({
+      stage: 'generation',
+      task: 'day',
+      prompt,
+      schema: {
+        type: "OBJECT",
+        properties: {
+          date: { type: "STRING" },
+          items: { type: "ARRAY", items: ITINERARY_ITEM_SCHEMA }
         },
-      });
+        required: ["date", "items"]
+      },
+      temperature: 0.7,
+      systemInstruction: "You are an elite travel curator revising a single day of an existing trip. Keep the day consistent with the neighbouring days (hotel, area, energy), respect each venue’s opening/closing window with a 15 minute buffer before close, and never move fixed bookings."
+    }, raw => validateDayPlan(raw, date));
+
+    // Ids must stay unique across the trip; the model tends to restart at "1"
+    const items = day.items.map((item, idx) => ({
+      ...item,
+      id: `${date}-regen-${Date.now()}-${idx}`
+    }));
+    return { date, items };
+  } catch (error: any) {
+    console.error("Day regeneration error after retries:", error);
+    throw error;
+  }
+};
+
+export interface StopAlternative {
+  item: ItineraryItem;
+  reason: string;
+}
+
+const MIN_ALTERNATIVES = 3;
+
+/**
+ * Stage 2c: Stop Alternatives
+ * Suggests nearby replacements of the same type for one stop. Candidates are
+ * checked against real opening hours and dropped if they can't cover the slot;
+ * a short list triggers one follow-up request.
+ */
+export const suggestAlternatives = async (
+  profile: UserProfile,
+  config: TripConfig,
+  plan: DayPlan[],
+  date: string,
+  item: ItineraryItem,
+  count = 4
+): Promise<StopAlternative[]> => {
+  const day = plan.find(d => d.date === date);
+  const index = day?.items.findIndex(i => i.id === item.id) ?? -1;
+  const previous = index > 0 ? day?.items[index - 1] : undefined;
+  const next = index >= 0 ? day?.items[index + 1] : undefined;
+  const slotStart = item.startTime || item.time;
+  const slotEnd = item.endTime || '';
+  const alreadyPlanned = plan.flatMap(d => d.items.map(i => i.title)).join(', ');
+  const near = item.location && (item.location.lat !== 0 || item.location.lng !== 0)
+    ? `near lat ${item.location.lat.toFixed(5)}, lng ${item.location.lng.toFixed(5)} (ideally within 1.5 km)`
+    : `in the same neighbourhood of ${config.destination}`;
+
+  const buildPrompt = (rejected: string[]) => `
+    The traveler wants to replace "${item.title}" (${item.type}) on ${date} in ${config.destination}.
+    Time slot: ${slotStart}${slotEnd ? `-${slotEnd}` : ''} (${item.duration || '60 min'}).
+    Previous stop: ${previous ? previous.title : 'start of day'}. Next stop: ${next ? next.title : 'end of day'}.
+    User Profile: Pace ${profile.pace}%, Interests: ${profile.interests.join(', ')}, Food: ${profile.foodTags.join(', ') || 'any'}, Budget Style: ${profile.budget}.
+
+    Suggest ${count} REAL alternatives of type "${item.type}" ${near}, open for the whole time slot on that date.
+    Do NOT suggest anything already in the trip: ${alreadyPlanned}.
+    ${rejected.length > 0 ? `Do NOT repeat these earlier suggestions either: ${rejected.join(', ')}.` : ''}
+    For each give a one-sentence reason it suits this traveler, plus openTime/closeTime and coordinates.
+  `;
+
+  const startMinutes = parseTimeToMinutes(slotStart);
+  const endMinutes = parseTimeToMinutes(slotEnd);
+  const fitsSlot = (candidate: ItineraryItem) => {
+    const open = parseTimeToMinutes(candidate.openTime);
+    const close = parseTimeToMinutes(candidate.closeTime);
+    if (startMinutes !== null && open !== null && open > startMinutes) return false;
+    // A close time before the open time means the venue runs past midnight
+    if (endMinutes !== null && close !== null && (open === null || close > open) && close < endMinutes) return false;
+    return true;
+  };
+
+  const askCurator = async (round: number, rejected: string[]) => {
+    const alternatives = await generateValidated({
+      stage: 'generation',
+      task: 'alternatives',
+      prompt: buildPrompt(rejected),
+      schema: {
+        type: "OBJECT",
+        properties: {
+          alternatives: {
+            type: "ARRAY",
+            items: {
+              type: "OBJECT",
+              properties: {
+                ...ITINERARY_ITEM_SCHEMA.properties,
+                reason: { type: "STRING" }
+              }
+            }
+          }
+        }
+      },
+      temperature: 0.6,
+      systemInstruction: "You are an elite travel curator. Suggest only real, currently operating venues with accurate coordinates and opening hours."
+    }, raw => validateAlternatives(raw, `${item.id}-alt`));
+
+    const reasons = new Map<string, string>();
+    const candidates: ItineraryItem[] = alternatives.map(({ reason, ...alt }, idx) => {
+      const id = `${item.id}-alt-${Date.now()}-${round}-${idx}`;
+      reasons.set(id, typeof reason === 'string' ? reason : '');
+      return { ...alt, id, type: item.type, time: slotStart, duration: item.duration };
     });
 
-    return JSON.parse(response.text || "{}");
+    const { items: withHours } = await resolveOperatingHoursForItems(candidates, config.destination, date);
+    return { candidates, reasons, fitting: withHours.filter(fitsSlot) };
+  };
+
+  try {
+    const suggestions: StopAlternative[] = [];
+    const rejected: string[] = [];
+    // The hours filter can drop most of a batch; ask once more for the shortfall
+    for (let round = 0; round < 2 && suggestions.length < MIN_ALTERNATIVES; round++) {
+      const { candidates, reasons, fitting } = await askCurator(round, rejected);
+      const seen = new Set(suggestions.map(s => s.item.title.toLowerCase()));
+      fitting
+        .filter(candidate => !seen.has(candidate.title.toLowerCase()))
+        .forEach(candidate => suggestions.push({ item: candidate, reason: reasons.get(candidate.id) ?? '' }));
+      rejected.push(...candidates.map(c => c.title));
+    }
+
+    return suggestions.slice(0, 5);
   } catch (error: any) {
-    console.error("Plan generation error after retries:", error);
+    console.error("Alternative suggestion error after retries:", error);
+    throw error;
+  }
+};
+
+/**
+ * Stage 2d: Command Interpreter
+ * Turns a free-text edit request into structured operations against the
+ * current plan. Nothing is applied here; the caller previews the result.
+ */
+export const interpretEditCommand = async (
+  command: string,
+  plan: DayPlan[],
+  activeDate: string,
+  dayStartTimes: Record<string, string>
+): Promise<EditCommandInterpretation> => {
+  const planLines = plan.map((day, idx) => {
+    const items = day.items
+      .map(item => `  - [${item.id}] ${item.startTime || item.time} ${item.title} (${item.type}, ${item.duration || '60 min'}${item.pinned ? ', fixed-time' : ''})`)
+      .join("\n");
+    return `Day ${idx + 1} ${day.date} (starts ${dayStartTimes[day.date] ?? '09:00'})${day.date === activeDate ? ' <- currently viewed' : ''}\n${items || '  (empty)'}`;
+  }).join("\n");
+
+  const prompt = `
+    CURRENT ITINERARY:
+    ${planLines}
+
+    TRAVELER COMMAND: "${command}"
+
+    Translate the command into edit operations, in the order they should be applied.
+    - Refer to stops by their [id] and to days by their date. "Today" or an unnamed day means the currently viewed day.
+    - insert: date, title, type, optional durationMinutes, optional startTime (HH:MM) and afterItemId ("START" to put it first).
+    - move: itemId, optional toDate, optional afterItemId ("START" to put it first).
+    - delete: itemId.
+    - retime: itemId with startTime (HH:MM) and/or durationMinutes.
+    - swapDays: date and otherDate.
+    - shiftDay: date and minutes (positive delays the day, negative starts earlier).
+    Only use startTime when the traveler names a time. If the command is unclear, return no operations and say why in the explanation.
+  `;
+
+  try {
+    const text = await withRetry(() => generateJson({
+      stage: 'generation',
+      task: 'editCommand',
+      prompt,
+      schema: {
+        type: "OBJECT",
+        properties: {
+          explanation: { type: "STRING" },
+          operations: {
+            type: "ARRAY",
+            items: {
+              type: "OBJECT",
+              properties: {
+                op: { type: "STRING", enum: ["insert", "move", "delete", "retime", "swapDays", "shiftDay"] },
+                itemId: { type: "STRING" },
+                date: { type: "STRING" },
+                toDate: { type: "STRING" },
+                otherDate: { type: "STRING" },
+                afterItemId: { type: "STRING" },
+                title: { type: "STRING" },
+                type: { type: "STRING", enum: ["hotel", "food", "activity", "transit"] },
+                description: { type: "STRING" },
+                startTime: { type: "STRING" },
+                durationMinutes: { type: "NUMBER" },
+                minutes: { type: "NUMBER" }
+              },
+              required: ["op"]
+            }
+          }
+        },
+        required: ["explanation", "operations"]
+      },
+      temperature: 0.2,
+      systemInstruction: "You are the editing assistant of a travel planner. Map the traveler's request onto the smallest set of edit operations. Never invent stop ids; only use ids listed in the itinerary."
+    }));
+
+    const data = JSON.parse(sanitizeJson(text || "{}"));
+    return {
+      operations: normalizeEditOperations(data.operations),
+      explanation: typeof data.explanation === 'string' ? data.explanation : ''
+    };
+  } catch (error: any) {
+    console.error("Command interpretation error after retries:", error);
     throw error;
   }
 };
 
 /**
  * Stage 3: Post-edit Risk Analysis
- * Uses real operating hours (Google Places) + AI to assess fatigue and conflicts.
+ * Uses real operating hours (Google Places) + local rule checks + AI to assess
+ * fatigue and conflicts. Falls back to the rule checks alone when AI is unavailable.
  */
 export const analyzeItineraryRisks = async (
   profile: UserProfile,
@@ -354,14 +676,11 @@ export const analyzeItineraryRisks = async (
   items: ItineraryItem[],
   travelBufferMinutes = 15
 ): Promise<ItineraryRiskResult> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
   const { items: updatedItems } = await resolveOperatingHoursForItems(items, config.destination, date);
-  const totalActiveMinutes = updatedItems.reduce((sum, item) => {
-    const minutes = item.durationMinutes ?? parseDurationMinutes(item.duration) ?? 60;
-    return sum + minutes;
-  }, 0);
-  const totalBufferMinutes = Math.max(0, updatedItems.length - 1) * travelBufferMinutes;
+  const local = analyzeRisksLocally(profile, dayStart, updatedItems, travelModeForTransport(config.transport));
+  const totalActiveMinutes = local.totalActiveMinutes;
+  // Estimated legs where coordinates exist, the flat buffer elsewhere
+  const totalBufferMinutes = updatedItems.slice(1).reduce((sum, item) => sum + (item.travelBefore?.minutes ?? travelBufferMinutes), 0);
 
   const itemLines = updatedItems.map((item, idx) => {
     const start = item.startTime || item.time || '';
@@ -369,13 +688,17 @@ export const analyzeItineraryRisks = async (
     const duration = item.durationMinutes ?? parseDurationMinutes(item.duration) ?? 60;
     const openTime = item.openTime || '';
     const closeTime = item.closeTime || '';
-    return `${idx + 1}. [${item.id}] ${item.title} (${item.type}) ${start}-${end} duration=${duration}min open=${openTime} close=${closeTime}`;
+    const fixed = item.pinned ? ' fixed-time' : '';
+    const leg = item.travelBefore ? ` travel-before=${item.travelBefore.minutes}min ${item.travelBefore.mode} ${item.travelBefore.distanceKm}km` : '';
+    return `${idx + 1}. [${item.id}] ${item.title} (${item.type}${fixed}) ${start}-${end} duration=${duration}min open=${openTime} close=${closeTime}${leg}`;
   }).join("\n");
+  const ruleFindings = local.itemRisks.map(entry => `- [${entry.itemId}] ${entry.type}: ${entry.reason}`).join("\n");
 
   const systemInstruction = `
     Role: Travel safety and feasibility analyst.
     Evaluate time conflicts, unrealistic transitions, and fatigue risk based on user pace.
     If opening hours are missing, DO NOT claim closure conflicts. Focus on fatigue and flow.
+    Items marked fixed-time are bookings that cannot move; suggest adjusting the flexible items around them instead.
     Be concise and actionable. Respond ONLY in JSON.
     
     Schema:
@@ -398,50 +721,36 @@ export const analyzeItineraryRisks = async (
     Transit Buffer Minutes: ${totalBufferMinutes}
     Items:
     ${itemLines}
+    Already found by rule checks (do not repeat; add only what they miss):
+    ${ruleFindings || "None"}
   `;
 
   try {
-    const response = await withRetry(async () => {
-      return await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: userContent,
-        config: {
-          systemInstruction,
-          responseMimeType: "application/json"
-        }
-      });
-    });
-
-    const parsed = JSON.parse(sanitizeJson(response.text || "{}"));
+    const parsed = await generateValidated({ stage: 'risk', task: 'risk', prompt: userContent, systemInstruction }, validateRiskResult);
     return {
       ...parsed,
+      shouldWarn: Boolean(parsed.shouldWarn) || local.shouldWarn,
+      summary: parsed.summary || local.summary,
+      fatigueScore: parsed.fatigueScore ?? local.fatigueScore,
+      itemRisks: mergeRiskItems(local.itemRisks, parsed.itemRisks),
+      suggestions: Array.from(new Set([...local.suggestions, ...(parsed.suggestions ?? [])])),
       totalActiveMinutes,
       updatedItems
     } as ItineraryRiskResult;
   } catch (error: any) {
+    // Offline or quota errors: the rule checks still stand on their own
     console.error("Risk analysis error after retries:", error);
     return {
-      shouldWarn: true,
-      summary: "AI 分析暂不可用，请具体去 Google 地点查询。",
-      totalActiveMinutes,
+      ...local,
       updatedItems
     };
   }
 };
 
 export const generatePlaceImage = async (placeName: string, visualPrompt: string): Promise<string | null> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   try {
     const prompt = `Travel photo of ${placeName}. ${visualPrompt}. Morandi colors, professional composition.`;
-    const response = await withRetry(async () => {
-      return await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [{ text: prompt }] },
-        config: { imageConfig: { aspectRatio: "16:9" } }
-      });
-    });
-    const part = response.candidates?.[0]?.content.parts.find(p => p.inlineData);
-    return part ? `data:image/png;base64,${part.inlineData.data}` : null;
+    return await withRetry(() => generateImage({ prompt, aspectRatio: "16:9", title: placeName, visualPrompt }));
   } catch (e) {
     console.error("Image generation failed:", e);
     return null;
@@ -0,0 +1,82 @@
+import { ItineraryItem } from "../types.ts";
+
+// Backend proxies in front of Nominatim (see api_backend.py), which send the User-Agent its usage policy asks for
+const LOCATION_SEARCH_URL = '/api/locations/search';
+const LOCATION_REVERSE_URL = '/api/locations/reverse';
+
+export interface ReverseGeocodeResult {
+  title: string;
+  address: string;
+  type: ItineraryItem['type'];
+}
+
+// Nominatim class/type pairs mapped onto itinerary stop types; anything else is an activity
+const FOOD_TYPES = ['restaurant', 'cafe', 'bar', 'pub', 'fast_food', 'food_court', 'ice_cream', 'bakery'];
+const HOTEL_TYPES = ['hotel', 'hostel', 'guest_house', 'motel', 'apartment'];
+const TRANSIT_CLASSES = ['railway', 'public_transport', 'aeroway'];
+
+const stopTypeFor = (category: string, type: string): ItineraryItem['type'] => {
+  if (FOOD_TYPES.includes(type)) return 'food';
+  if (category === 'tourism' && HOTEL_TYPES.includes(type)) return 'hotel';
+  if (TRANSIT_CLASSES.includes(category) || type === 'bus_station') return 'transit';
+  return 'activity';
+};
+
+/**
+ * Name and stop type of the place at a point, or null when nothing is found
+ * there. Falls back to the street address when the place has no name.
+ */
+export const reverseGeocode = async (lat: number, lng: number): Promise<ReverseGeocodeResult | null> => {
+  const response = await fetch(`${LOCATION_REVERSE_URL}?lat=${lat}&lng=${lng}`);
+  if (!response.ok) return null;
+  const data = await response.json();
+  if (!data || data.error) return null;
+  const address = data.display_name || '';
+  const title = data.name || address.split(',').slice(0, 2).join(',').trim();
+  if (!title) return null;
+  return { title, address, type: stopTypeFor(data.category || '', data.type || '') };
+};
+
+export interface GeocodeBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface GeocodeMatch {
+  lat: number;
+  lng: number;
+  displayName: string;
+  bounds: GeocodeBounds | null;
+}
+
+/**
+ * Looks a place up through the backend's location proxy. `poi` searches any
+ * place rather than cities and countries; `within` limits results to a box.
+ */
+export const searchPlaces = async (
+  query: string,
+  options: { poi?: boolean; within?: GeocodeBounds } = {}
+): Promise<GeocodeMatch[]> => {
+  const params = new URLSearchParams({ q: query });
+  if (options.poi) params.set('poi', 'true');
+  if (options.within) {
+    const { west, north, east, south } = options.within;
+    params.set('viewbox', [west, north, east, south].join(','));
+  }
+  const response = await fetch(`${LOCATION_SEARCH_URL}?${params.toString()}`);
+  if (!response.ok) throw new Error(`Location search failed with ${response.status}`);
+  const data = await response.json();
+  if (!Array.isArray(data)) return [];
+  return data.map((entry: any): GeocodeMatch => {
+    // Nominatim's boundingbox is [south, north, west, east] as strings
+    const box = Array.isArray(entry.boundingbox) ? entry.boundingbox.map(Number) : null;
+    return {
+      lat: parseFloat(entry.lat),
+      lng: parseFloat(entry.lon),
+      displayName: entry.display_name || '',
+      bounds: box && box.every(Number.isFinite) ? { south: box[0], north: box[1], west: box[2], east: box[3] } : null
+    };
+  }).filter(match => Number.isFinite(match.lat) && Number.isFinite(match.lng));
+};
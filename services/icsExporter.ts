@@ -0,0 +1,200 @@
+import { DayPlan, ItineraryItem } from "../types.ts";
+import { parseTimeToMinutes, parseDurationMinutes } from "./timeline.ts";
+
+const PRODUCT_ID = '-//Journalin//AI Travel Planner//EN';
+const MAX_LINE_OCTETS = 75;
+
+export interface IcsExportOptions {
+  destination: string;
+  timeZone?: string;
+  calendarName?: string;
+}
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+/**
+ * Escapes a TEXT value per RFC 5545 §3.3.11.
+ */
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Folds a content line so no physical line exceeds 75 octets, without
+ * splitting multi-byte characters.
+ */
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+const formatUtc = (ms: number) => {
+  const d = new Date(ms);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+};
+
+const formatFloating = (ms: number) => {
+  const d = new Date(ms);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}00`;
+};
+
+/**
+ * Offset of `timeZone` from UTC (in minutes) at the given instant.
+ */
+const getTimeZoneOffsetMinutes = (timeZone: string, utcMs: number) => {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+  const parts: Record<string, string> = {};
+  formatter.formatToParts(new Date(utcMs)).forEach(part => {
+    parts[part.type] = part.value;
+  });
+  const asUtc = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+  return Math.round((asUtc - utcMs) / 60000);
+};
+
+/**
+ * Converts a wall-clock time at the destination into a UTC timestamp,
+ * re-checking the offset once so DST transitions land on the right side.
+ */
+const zonedWallTimeToUtc = (wallClockMs: number, timeZone: string) => {
+  const firstOffset = getTimeZoneOffsetMinutes(timeZone, wallClockMs);
+  let utc = wallClockMs - firstOffset * 60000;
+  const secondOffset = getTimeZoneOffsetMinutes(timeZone, utc);
+  if (secondOffset !== firstOffset) {
+    utc = wallClockMs - secondOffset * 60000;
+  }
+  return utc;
+};
+
+const isValidTimeZone = (timeZone?: string): timeZone is string => {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Midnight of a plan date as a UTC-based "wall clock" epoch.
+ */
+const parsePlanDate = (date: string) => {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return Date.UTC(+match[1], +match[2] - 1, +match[3]);
+  const parsed = new Date(date);
+  if (isNaN(parsed.getTime())) return null;
+  return Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate());
+};
+
+const getItemWindow = (item: ItineraryItem) => {
+  const start = parseTimeToMinutes(item.startTime || item.time);
+  if (start === null) return null;
+  let end = parseTimeToMinutes(item.endTime);
+  if (end === null) {
+    end = start + (item.durationMinutes ?? parseDurationMinutes(item.duration) ?? 60);
+  } else if (end <= start) {
+    // Runs past midnight
+    end += 24 * 60;
+  }
+  return { start, end };
+};
+
+const buildDescription = (item: ItineraryItem) =>
+  [
+    item.description,
+    item.costEstimate ? `Cost: ${item.costEstimate}` : '',
+    item.url ?? ''
+  ].filter(Boolean).join('\n');
+
+/**
+ * Builds an RFC 5545 calendar with one VEVENT per itinerary stop.
+ * With a valid IANA `timeZone` the events are anchored to the destination's
+ * local time and written in UTC; otherwise they are floating local times.
+ */
+export const buildIcsCalendar = (plan: DayPlan[], options: IcsExportOptions) => {
+  const zone = isValidTimeZone(options.timeZone) ? options.timeZone : null;
+  const stamp = formatUtc(Date.now());
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.calendarName || `Journalin · ${options.destination}`)}`
+  ];
+  if (zone) lines.push(`X-WR-TIMEZONE:${zone}`);
+
+  plan.forEach(day => {
+    const dayMs = parsePlanDate(day.date);
+    if (dayMs === null) return;
+    day.items.forEach(item => {
+      const slot = getItemWindow(item);
+      if (!slot) return;
+      const startWall = dayMs + slot.start * 60000;
+      const endWall = dayMs + slot.end * 60000;
+      const dtStart = zone ? formatUtc(zonedWallTimeToUtc(startWall, zone)) : formatFloating(startWall);
+      const dtEnd = zone ? formatUtc(zonedWallTimeToUtc(endWall, zone)) : formatFloating(endWall);
+
+      lines.push('BEGIN:VEVENT');
+      lines.push(`UID:${item.id}-${day.date}@journalin`);
+      lines.push(`DTSTAMP:${stamp}`);
+      lines.push(`DTSTART:${dtStart}`);
+      lines.push(`DTEND:${dtEnd}`);
+      lines.push(`SUMMARY:${escapeText(item.title)}`);
+      lines.push(`LOCATION:${escapeText(`${item.title}, ${options.destination}`)}`);
+      if (item.location && (item.location.lat !== 0 || item.location.lng !== 0)) {
+        lines.push(`GEO:${item.location.lat.toFixed(6)};${item.location.lng.toFixed(6)}`);
+      }
+      const description = buildDescription(item);
+      if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+      if (item.url) lines.push(`URL:${item.url}`);
+      lines.push(`CATEGORIES:${item.type.toUpperCase()}`);
+      lines.push('END:VEVENT');
+    });
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const downloadIcsCalendar = (plan: DayPlan[], options: IcsExportOptions) => {
+  const content = buildIcsCalendar(plan, options);
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const slug = options.destination.split(',')[0].trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'trip';
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `journalin-${slug}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
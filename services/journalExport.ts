@@ -0,0 +1,277 @@
+import { DayPlan, ItineraryItem, SurvivalKit } from "../types.ts";
+
+export interface JournalExportData {
+  destination: string;
+  startDate: string;
+  endDate: string;
+  summary: string;
+  plan: DayPlan[];
+  survivalKit: SurvivalKit | null;
+  imageCache: Record<string, string>;
+  moodImage?: string | null;
+}
+
+export interface RoutePoint {
+  x: number;
+  y: number;
+  order: number;
+  item: ItineraryItem;
+}
+
+const hasCoordinates = (item: ItineraryItem) =>
+  !!item.location && (item.location.lat !== 0 || item.location.lng !== 0);
+
+/**
+ * Projects a day's stops into a width×height box (equirectangular, scaled by
+ * latitude so short city routes keep their shape). Stops without coordinates
+ * are skipped but keep their position in the day's numbering.
+ */
+export const projectRoute = (items: ItineraryItem[], width: number, height: number, padding = 16): RoutePoint[] => {
+  const located = items
+    .map((item, idx) => ({ item, order: idx + 1 }))
+    .filter(entry => hasCoordinates(entry.item));
+  if (located.length === 0) return [];
+
+  const lats = located.map(entry => entry.item.location!.lat);
+  const lngs = located.map(entry => entry.item.location!.lng);
+  const midLat = (Math.min(...lats) + Math.max(...lats)) / 2;
+  const lngScale = Math.cos((midLat * Math.PI) / 180);
+  const xs = lngs.map(lng => lng * lngScale);
+  const minX = Math.min(...xs);
+  const maxLat = Math.max(...lats);
+  const spanX = Math.max(...xs) - minX;
+  const spanY = maxLat - Math.min(...lats);
+  const innerWidth = width - padding * 2;
+  const innerHeight = height - padding * 2;
+  const scale = Math.min(
+    spanX > 0 ? innerWidth / spanX : Infinity,
+    spanY > 0 ? innerHeight / spanY : Infinity
+  );
+  const effectiveScale = isFinite(scale) ? scale : 0;
+  const offsetX = padding + (innerWidth - spanX * effectiveScale) / 2;
+  const offsetY = padding + (innerHeight - spanY * effectiveScale) / 2;
+
+  return located.map((entry, idx) => ({
+    x: offsetX + (xs[idx] - minX) * effectiveScale,
+    y: offsetY + (maxLat - lats[idx]) * effectiveScale,
+    order: entry.order,
+    item: entry.item
+  }));
+};
+
+export const formatJournalDate = (date: string) => {
+  const parsed = new Date(`${date}T00:00:00`);
+  if (isNaN(parsed.getTime())) return date;
+  return parsed.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+};
+
+// --- PDF --------------------------------------------------------------------
+
+const PAGE_MARGIN = 48;
+const FOREST: [number, number, number] = [9, 47, 38];
+const SUNSET: [number, number, number] = [228, 124, 88];
+const MUTED: [number, number, number] = [120, 140, 134];
+
+const mapTypography = (value: string) =>
+  value
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/→/g, '->');
+
+const UNSUPPORTED_PDF_CHAR = /[^\x00-\xff]/;
+
+/**
+ * The standard PDF fonts only cover Latin-1; map common typography and drop
+ * anything else rather than printing mojibake. Journals that would lose text
+ * this way are caught by `hasUnsupportedPdfText` first.
+ */
+const toPdfText = (value: string) => mapTypography(value).replace(new RegExp(UNSUPPORTED_PDF_CHAR.source, 'g'), '');
+
+/**
+ * Whether the journal has text (Chinese, Japanese, Korean, emoji...) the PDF
+ * fonts cannot draw; such journals should go through the print layout.
+ */
+export const hasUnsupportedPdfText = (data: JournalExportData) => {
+  const kit = data.survivalKit;
+  const texts = [
+    data.destination,
+    data.summary,
+    ...data.plan.flatMap(day => day.items.flatMap(item => [item.title, item.description, item.duration ?? '', item.costEstimate ?? ''])),
+    ...(kit ? [
+      ...kit.packingList,
+      ...kit.localTips,
+      ...kit.essentialApps.flatMap(app => [app.name, app.purpose]),
+      ...Object.values(kit.budgetEstimate)
+    ] : [])
+  ];
+  return texts.some(text => UNSUPPORTED_PDF_CHAR.test(mapTypography(text ?? '')));
+};
+
+const getImageFormat = (src?: string) => {
+  const match = src?.match(/^data:image\/(png|jpe?g|webp);base64,/i);
+  if (!match) return null;
+  const format = match[1].toLowerCase();
+  return format === 'png' ? 'PNG' : format === 'webp' ? 'WEBP' : 'JPEG';
+};
+
+/**
+ * Builds the journal as a PDF entirely in the browser. Only images already
+ * held as data URLs are embedded; remote images would taint the export with
+ * CORS failures, so they are left out.
+ */
+export const buildJournalPdf = async (data: JournalExportData) => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  let cursorY = PAGE_MARGIN;
+
+  const ensureSpace = (needed: number) => {
+    if (cursorY + needed > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      cursorY = PAGE_MARGIN;
+    }
+  };
+
+  const writeText = (text: string, options: { size: number; style?: 'normal' | 'bold' | 'italic'; color?: [number, number, number]; font?: 'helvetica' | 'times'; width?: number; x?: number; gap?: number }) => {
+    doc.setFont(options.font ?? 'helvetica', options.style ?? 'normal');
+    doc.setFontSize(options.size);
+    doc.setTextColor(...(options.color ?? FOREST));
+    const lines: string[] = doc.splitTextToSize(toPdfText(text), options.width ?? contentWidth);
+    const lineHeight = options.size * 1.35;
+    lines.forEach(line => {
+      ensureSpace(lineHeight);
+      doc.text(line, options.x ?? PAGE_MARGIN, cursorY + options.size);
+      cursorY += lineHeight;
+    });
+    cursorY += options.gap ?? 0;
+  };
+
+  // Cover
+  writeText('JOURNALIN', { size: 9, style: 'bold', color: MUTED, gap: 8 });
+  writeText(data.destination, { size: 34, font: 'times', style: 'bold', gap: 4 });
+  writeText(`${data.startDate} - ${data.endDate}`, { size: 11, color: MUTED, gap: 16 });
+  const moodFormat = getImageFormat(data.moodImage ?? undefined);
+  if (data.moodImage && moodFormat) {
+    const imageHeight = contentWidth * 9 / 16;
+    doc.addImage(data.moodImage, moodFormat, PAGE_MARGIN, cursorY, contentWidth, imageHeight);
+    cursorY += imageHeight + 20;
+  }
+  if (data.summary) writeText(data.summary, { size: 12, font: 'times', style: 'italic', gap: 12 });
+
+  // Days
+  data.plan.forEach((day, dayIdx) => {
+    doc.addPage();
+    cursorY = PAGE_MARGIN;
+    writeText(`DAY ${dayIdx + 1}`, { size: 9, style: 'bold', color: SUNSET, gap: 2 });
+    writeText(formatJournalDate(day.date), { size: 24, font: 'times', style: 'bold', gap: 12 });
+
+    const mapHeight = 160;
+    const route = projectRoute(day.items, contentWidth, mapHeight, 20);
+    if (route.length > 0) {
+      doc.setFillColor(247, 249, 248);
+      doc.setDrawColor(220, 228, 232);
+      doc.roundedRect(PAGE_MARGIN, cursorY, contentWidth, mapHeight, 12, 12, 'FD');
+      doc.setDrawColor(...SUNSET);
+      doc.setLineWidth(1.5);
+      route.slice(1).forEach((point, idx) => {
+        const previous = route[idx];
+        doc.line(PAGE_MARGIN + previous.x, cursorY + previous.y, PAGE_MARGIN + point.x, cursorY + point.y);
+      });
+      route.forEach(point => {
+        doc.setFillColor(...FOREST);
+        doc.circle(PAGE_MARGIN + point.x, cursorY + point.y, 8, 'F');
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(8);
+        doc.setTextColor(255, 255, 255);
+        doc.text(String(point.order), PAGE_MARGIN + point.x, cursorY + point.y + 3, { align: 'center' });
+      });
+      cursorY += mapHeight + 20;
+    }
+
+    day.items.forEach((item, idx) => {
+      const image = data.imageCache[item.id] || item.imageUrl;
+      const imageFormat = getImageFormat(image);
+      const imageWidth = imageFormat ? 140 : 0;
+      const textWidth = contentWidth - (imageFormat ? imageWidth + 16 : 0);
+      ensureSpace(imageFormat ? imageWidth * 9 / 16 + 12 : 60);
+      const blockTop = cursorY;
+
+      const meta = [
+        item.startTime || item.time,
+        item.duration,
+        item.costEstimate,
+        item.pinned ? 'fixed time' : ''
+      ].filter(Boolean).join('  ·  ');
+      writeText(`${idx + 1}. ${item.type.toUpperCase()}${meta ? `  ·  ${meta}` : ''}`, { size: 8, style: 'bold', color: MUTED, width: textWidth, gap: 2 });
+      writeText(item.title, { size: 15, font: 'times', style: 'bold', width: textWidth, gap: 2 });
+      writeText(item.description, { size: 10, width: textWidth });
+
+      if (imageFormat && image) {
+        const imageHeight = imageWidth * 9 / 16;
+        doc.addImage(image, imageFormat, PAGE_MARGIN + contentWidth - imageWidth, blockTop, imageWidth, imageHeight);
+        cursorY = Math.max(cursorY, blockTop + imageHeight);
+      }
+      cursorY += 18;
+    });
+  });
+
+  // Survival kit
+  if (data.survivalKit) {
+    const kit = data.survivalKit;
+    doc.addPage();
+    cursorY = PAGE_MARGIN;
+    writeText('The Survival Kit', { size: 24, font: 'times', style: 'bold', gap: 16 });
+
+    writeText('PACKING LIST', { size: 9, style: 'bold', color: SUNSET, gap: 6 });
+    kit.packingList.forEach(entry => {
+      ensureSpace(16);
+      doc.setDrawColor(...FOREST);
+      doc.setLineWidth(0.75);
+      doc.rect(PAGE_MARGIN, cursorY + 2, 9, 9);
+      writeText(entry, { size: 10, x: PAGE_MARGIN + 18, width: contentWidth - 18, gap: 3 });
+    });
+    cursorY += 14;
+
+    const budget = kit.budgetEstimate;
+    writeText(`BUDGET (${budget.currency})`, { size: 9, style: 'bold', color: SUNSET, gap: 6 });
+    [
+      ['Accommodation', budget.accommodation],
+      ['Food', budget.food],
+      ['Transport', budget.transport],
+      ['Total estimated', budget.totalEstimated]
+    ].forEach(([label, value], idx, rows) => {
+      ensureSpace(18);
+      const isTotal = idx === rows.length - 1;
+      doc.setFont('helvetica', isTotal ? 'bold' : 'normal');
+      doc.setFontSize(10);
+      doc.setTextColor(...FOREST);
+      doc.text(toPdfText(label), PAGE_MARGIN, cursorY + 10);
+      doc.text(toPdfText(value), PAGE_MARGIN + contentWidth, cursorY + 10, { align: 'right' });
+      cursorY += 18;
+    });
+    cursorY += 14;
+
+    if (kit.localTips.length > 0) {
+      writeText('LOCAL WISDOM', { size: 9, style: 'bold', color: SUNSET, gap: 6 });
+      kit.localTips.forEach(tip => writeText(`- ${tip}`, { size: 10, gap: 3 }));
+      cursorY += 14;
+    }
+
+    if (kit.essentialApps.length > 0) {
+      writeText('ESSENTIAL APPS', { size: 9, style: 'bold', color: SUNSET, gap: 6 });
+      kit.essentialApps.forEach(app => writeText(`${app.name} - ${app.purpose}`, { size: 10, gap: 3 }));
+    }
+  }
+
+  return doc;
+};
+
+export const downloadJournalPdf = async (data: JournalExportData) => {
+  const doc = await buildJournalPdf(data);
+  const slug = data.destination.split(',')[0].trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'trip';
+  doc.save(`journalin-${slug}.pdf`);
+};
@@ -0,0 +1,62 @@
+import { createServerProvider } from "./providers/serverProvider.ts";
+import { createFixtureProvider } from "./providers/fixtureProvider.ts";
+
+/**
+ * Pipeline stages that can run on their own model (chosen by the backend).
+ * Day regeneration, alternatives and edit commands count as generation.
+ */
+export type LlmStage = 'feasibility' | 'generation' | 'risk' | 'image';
+
+export interface JsonRequest {
+  stage: Exclude<LlmStage, 'image'>;
+  // Names the call (plan, day, risk...) for fixtures and schema names
+  task: string;
+  prompt: string;
+  systemInstruction?: string;
+  // Gemini-style schema (upper-case types such as "OBJECT", `propertyOrdering`); the backend translates it as needed
+  schema?: Record<string, any>;
+  temperature?: number;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  aspectRatio?: '1:1' | '16:9' | '9:16';
+  // The place shown; the backend caches images by these two
+  title?: string;
+  visualPrompt?: string;
+}
+
+/**
+ * A model backend. Errors should carry an HTTP-like `status` so the retry
+ * helper in geminiService can tell overload and rate limits apart.
+ */
+export interface LlmProvider {
+  name: string;
+  // Resolves to the raw JSON text; `onPartial` receives the text so far while streaming
+  generateJson: (request: JsonRequest, onPartial?: (textSoFar: string) => void) => Promise<string>;
+  // Resolves to a data URL, or null when the model returned no image
+  generateImage: (request: ImageRequest) => Promise<string | null>;
+}
+
+// `LLM_FIXTURES=replay` runs without any model; `record` saves what the backend answers
+const createConfiguredProvider = (): LlmProvider => {
+  if (process.env.LLM_FIXTURES === 'replay') return createFixtureProvider();
+  const provider = createServerProvider();
+  return process.env.LLM_FIXTURES === 'record' ? createFixtureProvider(provider) : provider;
+};
+
+let llmProvider: LlmProvider | null = null;
+
+export const getLlmProvider = () => {
+  if (!llmProvider) llmProvider = createConfiguredProvider();
+  return llmProvider;
+};
+
+export const setLlmProvider = (provider: LlmProvider | null) => {
+  llmProvider = provider;
+};
+
+export const generateJson = (request: JsonRequest, onPartial?: (textSoFar: string) => void) =>
+  getLlmProvider().generateJson(request, onPartial);
+
+export const generateImage = (request: ImageRequest) => getLlmProvider().generateImage(request);
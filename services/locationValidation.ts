@@ -0,0 +1,131 @@
+import { DayPlan, ItineraryItem, LocationStatus } from "../types.ts";
+import { GeocodeBounds, searchPlaces } from "./geocoding.ts";
+import { haversineKm } from "./travelTime.ts";
+
+type LatLng = { lat: number; lng: number };
+
+export interface LocationCheck {
+  itemId: string;
+  status: LocationStatus;
+  // Replacement coordinates for corrected stops
+  location?: LatLng;
+  note?: string;
+  // What the stop looked like when it was judged; a stop changed since is left alone
+  judgedLocation?: LatLng;
+  judgedStatus?: LocationStatus;
+}
+
+// Model coordinates further than this from the geocoded place are replaced
+const MAX_DRIFT_KM = 1.5;
+// The destination's box grows by this share of its size (at least MIN_PADDING degrees) to allow day trips
+const REGION_PADDING_RATIO = 0.25;
+const MIN_REGION_PADDING = 0.1;
+// Nominatim's usage policy allows one request per second
+const REQUEST_INTERVAL_MS = 1100;
+
+const hasCoordinates = (location?: LatLng): location is LatLng =>
+  !!location && Number.isFinite(location.lat) && Number.isFinite(location.lng) && (location.lat !== 0 || location.lng !== 0);
+
+const padBounds = (bounds: GeocodeBounds): GeocodeBounds => {
+  const padLat = Math.max(MIN_REGION_PADDING, (bounds.north - bounds.south) * REGION_PADDING_RATIO);
+  const padLng = Math.max(MIN_REGION_PADDING, (bounds.east - bounds.west) * REGION_PADDING_RATIO);
+  return {
+    south: bounds.south - padLat,
+    north: bounds.north + padLat,
+    west: bounds.west - padLng,
+    east: bounds.east + padLng
+  };
+};
+
+const isWithin = (bounds: GeocodeBounds, point: LatLng) =>
+  point.lat >= bounds.south && point.lat <= bounds.north && point.lng >= bounds.west && point.lng <= bounds.east;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const judge = (item: ItineraryItem, region: GeocodeBounds, match: LatLng | null, destination: string): LocationCheck | null => {
+  const current = item.location;
+  const located = hasCoordinates(current);
+  const inRegion = located && isWithin(region, current);
+  if (match) {
+    if (!located) {
+      return { itemId: item.id, status: 'corrected', location: match, note: 'Placed from the geocoded address' };
+    }
+    const driftKm = haversineKm(current, match);
+    if (!inRegion || driftKm > MAX_DRIFT_KM) {
+      return { itemId: item.id, status: 'corrected', location: match, note: `Moved ${driftKm.toFixed(1)} km to the geocoded address` };
+    }
+    return { itemId: item.id, status: 'verified' };
+  }
+  if (!located) return { itemId: item.id, status: 'review', note: 'No coordinates and no match found' };
+  if (!inRegion) return { itemId: item.id, status: 'review', note: `Coordinates are outside ${destination}` };
+  // Inside the destination but unknown to the geocoder: nothing to flag
+  return null;
+};
+
+/**
+ * Geocodes every stop's title inside the destination and compares it with
+ * the coordinates the model gave. Far-off or missing coordinates are replaced
+ * with the match; stops with no match that sit outside the destination are
+ * marked for review. Resolves to no checks when the destination itself
+ * cannot be found.
+ */
+export const validatePlanLocations = async (
+  plan: DayPlan[],
+  destination: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<LocationCheck[]> => {
+  const [place] = await searchPlaces(destination);
+  if (!place?.bounds) return [];
+  const region = padBounds(place.bounds);
+  const city = destination.split(',')[0].trim();
+
+  // Transit legs (trains, flights) often start or end outside the destination
+  const items = plan.flatMap(day => day.items).filter(item => item.type !== 'transit' && item.title.trim());
+  const matches = new Map<string, LatLng | null>();
+  const checks: LocationCheck[] = [];
+  onProgress?.(0, items.length);
+
+  for (const [idx, item] of items.entries()) {
+    const query = item.title.trim();
+    if (!matches.has(query)) {
+      await wait(REQUEST_INTERVAL_MS);
+      try {
+        const [match] = await searchPlaces(`${query}, ${city}`, { poi: true, within: region });
+        matches.set(query, match ? { lat: match.lat, lng: match.lng } : null);
+      } catch (error) {
+        // Leave the stop alone rather than flag it because the lookup failed
+        console.warn(`Geocoding "${query}" failed:`, error);
+        onProgress?.(idx + 1, items.length);
+        continue;
+      }
+    }
+    const check = judge(item, region, matches.get(query) ?? null, city);
+    if (check) checks.push({ ...check, judgedLocation: item.location, judgedStatus: item.locationStatus });
+    onProgress?.(idx + 1, items.length);
+  }
+  return checks;
+};
+
+const sameLocation = (a?: LatLng, b?: LatLng) => a?.lat === b?.lat && a?.lng === b?.lng;
+
+/**
+ * Writes check results onto the matching stops by id. Stops moved or
+ * re-judged while the checks ran (a dragged marker, say) keep their edit.
+ */
+export const applyLocationChecks = (plan: DayPlan[], checks: LocationCheck[]): DayPlan[] => {
+  const byId = new Map(checks.map(check => [check.itemId, check]));
+  return plan.map(day => ({
+    ...day,
+    items: day.items.map(item => {
+      const check = byId.get(item.id);
+      if (!check) return item;
+      if (!sameLocation(item.location, check.judgedLocation) || item.locationStatus !== check.judgedStatus) return item;
+      return {
+        ...item,
+        locationStatus: check.status,
+        locationNote: check.note,
+        ...(check.location ? { location: check.location, originalLocation: item.location } : {})
+      };
+    })
+  }));
+};
@@ -0,0 +1,148 @@
+import { DayPlan } from "../types.ts";
+
+const SERVICE_WORKER_URL = '/sw.js';
+// Must match the tile layer in PastelMap
+const TILE_URL = 'https://a.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png';
+const MIN_ZOOM = 10;
+const MAX_ZOOM = 16;
+// Upper bound per trip so a spread-out itinerary cannot fill the device
+const MAX_TILES = 1500;
+// Margin around the outermost stops, in degrees (~2 km)
+const BOUNDS_PADDING = 0.02;
+// `serviceWorker.ready` never settles when registration failed, so stop waiting after this
+const WORKER_READY_TIMEOUT_MS = 10000;
+
+export interface TripBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface OfflineMapResult {
+  tileCount: number;
+  failed: number;
+  maxZoom: number;
+}
+
+/**
+ * Every file the page has loaded so far (modules, styles, fonts). On the
+ * first visit these arrive before the worker controls the page, so the worker
+ * is handed the list to cache; it keeps only app and CDN files.
+ */
+const getLoadedShellUrls = () => [
+  new URL('/', window.location.origin).href,
+  ...performance.getEntriesByType('resource').map(entry => entry.name)
+];
+
+const precacheShell = (worker: ServiceWorker) => worker.postMessage({ type: 'PRECACHE_SHELL', urls: getLoadedShellUrls() });
+
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(SERVICE_WORKER_URL)
+      .then(() => navigator.serviceWorker.ready)
+      .then(registration => registration.active && precacheShell(registration.active))
+      .catch(error => {
+        console.warn("Service worker registration failed:", error);
+      });
+  });
+};
+
+/**
+ * Bounding box of every located stop in the plan, padded a little, or null
+ * when no stop has coordinates.
+ */
+export const getTripBounds = (plan: DayPlan[]): TripBounds | null => {
+  const points = plan
+    .flatMap(day => day.items)
+    .map(item => item.location)
+    .filter((location): location is { lat: number; lng: number } => !!location && (location.lat !== 0 || location.lng !== 0));
+  if (points.length === 0) return null;
+  return {
+    south: Math.min(...points.map(p => p.lat)) - BOUNDS_PADDING,
+    west: Math.min(...points.map(p => p.lng)) - BOUNDS_PADDING,
+    north: Math.max(...points.map(p => p.lat)) + BOUNDS_PADDING,
+    east: Math.max(...points.map(p => p.lng)) + BOUNDS_PADDING
+  };
+};
+
+const lngToTileX = (lng: number, zoom: number) => Math.floor(((lng + 180) / 360) * 2 ** zoom);
+
+const latToTileY = (lat: number, zoom: number) => {
+  const rad = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** zoom);
+};
+
+/**
+ * Tile URLs covering the bounds from MIN_ZOOM upwards. Stops before the zoom
+ * level that would push the total past MAX_TILES.
+ */
+export const getTileUrls = (bounds: TripBounds, retina = window.devicePixelRatio > 1) => {
+  const urls: string[] = [];
+  let maxZoom = MIN_ZOOM - 1;
+  for (let zoom = MIN_ZOOM; zoom <= MAX_ZOOM; zoom++) {
+    const minX = lngToTileX(bounds.west, zoom);
+    const maxX = lngToTileX(bounds.east, zoom);
+    const minY = latToTileY(bounds.north, zoom);
+    const maxY = latToTileY(bounds.south, zoom);
+    const count = (maxX - minX + 1) * (maxY - minY + 1);
+    if (urls.length + count > MAX_TILES) break;
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        urls.push(TILE_URL
+          .replace('{z}', String(zoom))
+          .replace('{x}', String(x))
+          .replace('{y}', String(y))
+          .replace('{r}', retina ? '@2x' : ''));
+      }
+    }
+    maxZoom = zoom;
+  }
+  return { urls, maxZoom };
+};
+
+/**
+ * Asks the service worker to download the map tiles for the trip's area.
+ * Resolves once every tile has been fetched or has failed.
+ */
+export const saveTripMapOffline = async (
+  plan: DayPlan[],
+  onProgress?: (done: number, total: number) => void
+): Promise<OfflineMapResult> => {
+  if (!('serviceWorker' in navigator)) {
+    throw new Error("Offline maps are not supported in this browser.");
+  }
+  const bounds = getTripBounds(plan);
+  if (!bounds) {
+    throw new Error("None of the stops have map coordinates yet.");
+  }
+  if (!(await navigator.serviceWorker.getRegistration())) {
+    throw new Error("Offline support is not available on this page (the service worker is not installed).");
+  }
+  const registration = await Promise.race([
+    navigator.serviceWorker.ready,
+    new Promise<null>(resolve => setTimeout(() => resolve(null), WORKER_READY_TIMEOUT_MS))
+  ]);
+  const worker = registration?.active;
+  if (!worker) {
+    throw new Error("Offline support is still starting. Please try again in a moment.");
+  }
+
+  // Modules loaded since registration (lazy chunks such as the PDF export) come along too
+  precacheShell(worker);
+  const { urls, maxZoom } = getTileUrls(bounds);
+  onProgress?.(0, urls.length);
+  return new Promise((resolve) => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = (event) => {
+      const { data } = event;
+      if (data?.type === 'progress') onProgress?.(data.done, data.total);
+      if (data?.type === 'done') {
+        channel.port1.close();
+        resolve({ tileCount: data.cached, failed: data.failed, maxZoom });
+      }
+    };
+    worker.postMessage({ type: 'PRECACHE_TILES', urls }, [channel.port2]);
+  });
+};
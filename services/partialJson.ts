@@ -0,0 +1,72 @@
+/**
+ * Helpers for reading a JSON document while it is still streaming in.
+ * They only ever return values that are complete in the text received so far.
+ */
+
+/**
+ * Scans forward from `start` (which must point at `{` or `[`) and returns the
+ * index just past the matching close bracket, or -1 if it has not arrived yet.
+ */
+const findValueEnd = (text: string, start: number) => {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') depth++;
+    else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return -1;
+};
+
+const findKey = (text: string, key: string) => {
+  const match = new RegExp(`"${key}"\\s*:\\s*`).exec(text);
+  return match ? match.index + match[0].length : -1;
+};
+
+/**
+ * Returns the fully received object elements of the array stored under `key`.
+ */
+export const extractCompleteArrayItems = <T>(text: string, key: string): T[] => {
+  const valueStart = findKey(text, key);
+  if (valueStart === -1 || text[valueStart] !== '[') return [];
+  const items: T[] = [];
+  let cursor = valueStart + 1;
+  while (cursor < text.length) {
+    const next = text.slice(cursor).search(/[{\]]/);
+    if (next === -1 || text[cursor + next] === ']') break;
+    const itemStart = cursor + next;
+    const itemEnd = findValueEnd(text, itemStart);
+    if (itemEnd === -1) break;
+    try {
+      items.push(JSON.parse(text.slice(itemStart, itemEnd)));
+    } catch {
+      break;
+    }
+    cursor = itemEnd;
+  }
+  return items;
+};
+
+/**
+ * Returns the string stored under `key` once its closing quote has arrived.
+ */
+export const extractCompleteString = (text: string, key: string) => {
+  const valueStart = findKey(text, key);
+  if (valueStart === -1 || text[valueStart] !== '"') return null;
+  const match = text.slice(valueStart).match(/^"((?:[^"\\]|\\.)*)"/);
+  if (!match) return null;
+  try {
+    return JSON.parse(`"${match[1]}"`) as string;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createFixtureProvider, fixtureKey } from './fixtureProvider.ts';
+import { JsonRequest, LlmProvider } from '../llmProvider.ts';
+
+const request: JsonRequest = { stage: 'generation', task: 'plan', prompt: 'Plan two days in Kyoto' };
+
+// Serves `fixtures` by name from the dev-server route and records every POST
+const stubFixtureServer = (fixtures: Record<string, unknown>) => {
+  const saved: { name: string; body: any }[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+    const name = url.replace('/__fixtures/llm/', '');
+    if (init?.method === 'POST') {
+      saved.push({ name, body: JSON.parse(String(init.body)) });
+      return new Response(null, { status: 204 });
+    }
+    return name in fixtures ? Response.json(fixtures[name]) : new Response(null, { status: 404 });
+  }));
+  return saved;
+};
+
+const stubProvider = (text: string): LlmProvider => ({
+  name: 'stub',
+  generateJson: vi.fn(async () => text),
+  generateImage: vi.fn(async () => 'data:image/png;base64,AAAA')
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fixtureKey', () => {
+  it('is an 8-digit hex hash that ignores whitespace differences', () => {
+    const key = fixtureKey(['generation', 'Plan  two days\n in Kyoto']);
+    expect(key).toMatch(/^[0-9a-f]{8}$/);
+    expect(fixtureKey(['generation', 'Plan two   days in\tKyoto'])).toBe(key);
+  });
+
+  it('changes with the prompt and with how it is split into parts', () => {
+    const key = fixtureKey(['generation', 'Plan two days in Kyoto']);
+    expect(fixtureKey(['generation', 'Plan three days in Kyoto'])).not.toBe(key);
+    expect(fixtureKey(['generationPlan', ' two days in Kyoto'])).not.toBe(key);
+  });
+});
+
+describe('createFixtureProvider in replay mode', () => {
+  it('replays the recording made for the exact request', async () => {
+    const recorded = createFixtureProvider(stubProvider('{"summary":"recorded"}'));
+    const saved = stubFixtureServer({});
+    await recorded.generateJson(request);
+
+    stubFixtureServer({ [saved[0].name]: saved[0].body, 'default-plan': { json: { summary: 'default' } } });
+    expect(await createFixtureProvider().generateJson(request)).toBe('{"summary":"recorded"}');
+  });
+
+  it("falls back to the task's default fixture", async () => {
+    stubFixtureServer({ 'default-plan': { json: { summary: 'default' } } });
+    expect(await createFixtureProvider().generateJson(request)).toBe('{"summary":"default"}');
+  });
+
+  it('throws when neither a recording nor a default exists', async () => {
+    stubFixtureServer({});
+    await expect(createFixtureProvider().generateJson(request)).rejects.toThrow(/No fixture for plan/);
+  });
+
+  it('hands the text out in growing pieces when streaming', async () => {
+    stubFixtureServer({ 'default-plan': { json: { summary: 'A slow walk along the Kamo River' } } });
+    const partials: string[] = [];
+    const text = await createFixtureProvider().generateJson(request, partial => partials.push(partial));
+    expect(partials.length).toBe(8);
+    partials.slice(1).forEach((partial, idx) => expect(partial.startsWith(partials[idx])).toBe(true));
+    expect(partials[partials.length - 1]).toBe(text);
+  });
+
+  it('draws a placeholder when no image was recorded', async () => {
+    stubFixtureServer({});
+    const image = await createFixtureProvider().generateImage({ prompt: 'Kiyomizu-dera at dusk' });
+    expect(image).toMatch(/^data:image\/svg\+xml;utf8,/);
+  });
+});
+
+describe('createFixtureProvider in record mode', () => {
+  it('returns the real answer and saves it as parsed JSON under the task name', async () => {
+    const provider = stubProvider('```json\n{"summary":"live"}\n```');
+    const saved = stubFixtureServer({});
+    const text = await createFixtureProvider(provider).generateJson(request);
+
+    expect(text).toBe('```json\n{"summary":"live"}\n```');
+    expect(saved).toHaveLength(1);
+    expect(saved[0].name).toMatch(/^plan-[0-9a-f]{8}$/);
+    expect(saved[0].body).toMatchObject({ task: 'plan', json: { summary: 'live' } });
+  });
+
+  it('keeps answers that are not JSON as raw text', async () => {
+    const saved = stubFixtureServer({});
+    await createFixtureProvider(stubProvider('not json')).generateJson(request);
+    expect(saved[0].body).toMatchObject({ text: 'not json' });
+    expect(saved[0].body.json).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import { ImageRequest, JsonRequest, LlmProvider } from "../llmProvider.ts";
+
+// Served by the `llm-fixtures` plugin in vite.config.ts from fixtures/llm/
+const FIXTURE_URL = '/__fixtures/llm';
+// Replayed plans are handed out in this many pieces so the drafting progress still shows
+const REPLAY_CHUNKS = 8;
+const REPLAY_CHUNK_DELAY_MS = 40;
+
+interface Fixture {
+  task?: string;
+  recordedAt?: string;
+  // Parsed JSON when the response was valid JSON, the raw text otherwise
+  json?: unknown;
+  text?: string;
+  image?: string | null;
+}
+
+/**
+ * FNV-1a hash of the parts, with whitespace collapsed so re-indenting a
+ * prompt template does not invalidate its recordings.
+ */
+export const fixtureKey = (parts: string[]) => {
+  const input = parts.join('\u0000').replace(/\s+/g, ' ').trim();
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const jsonFixtureName = (request: JsonRequest) =>
+  `${request.task}-${fixtureKey([request.stage, request.systemInstruction ?? '', request.prompt, JSON.stringify(request.schema ?? null)])}`;
+
+const imageFixtureName = (request: ImageRequest) => `image-${fixtureKey([request.prompt, request.aspectRatio ?? ''])}`;
+
+const loadFixture = async (name: string): Promise<Fixture | null> => {
+  const response = await fetch(`${FIXTURE_URL}/${name}`);
+  return response.ok ? response.json() : null;
+};
+
+const saveFixture = (name: string, fixture: Fixture) =>
+  fetch(`${FIXTURE_URL}/${name}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(fixture, null, 2)
+  }).catch(error => console.warn(`Could not record fixture ${name}:`, error));
+
+const toFixtureBody = (text: string): Pick<Fixture, 'json' | 'text'> => {
+  try {
+    return { json: JSON.parse(text.replace(/```json/g, '').replace(/```/g, '').trim()) };
+  } catch {
+    return { text };
+  }
+};
+
+// A flat Morandi-toned card whose hue follows the prompt, so each place keeps its color
+const placeholderImage = (prompt: string) => {
+  const hue = parseInt(fixtureKey([prompt]).slice(0, 4), 16) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1600" height="900" viewBox="0 0 1600 900">
+    <rect width="1600" height="900" fill="hsl(${hue}, 18%, 78%)"/>
+    <circle cx="1180" cy="300" r="220" fill="hsl(${(hue + 40) % 360}, 22%, 86%)"/>
+    <rect y="620" width="1600" height="280" fill="hsl(${hue}, 16%, 64%)"/>
+  </svg>`;
+  return `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`;
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Deterministic stand-in for a model. Without `recordFrom` it replays the
+ * recording for the exact request (by prompt hash), else the task's
+ * `default-<task>.json`, and draws placeholder images; nothing leaves the
+ * machine. With `recordFrom` every answer of that provider is saved first.
+ */
+export const createFixtureProvider = (recordFrom?: LlmProvider): LlmProvider => ({
+  name: recordFrom ? `fixture-record(${recordFrom.name})` : 'fixture',
+  generateJson: async (request, onPartial) => {
+    const name = jsonFixtureName(request);
+    if (recordFrom) {
+      const text = await recordFrom.generateJson(request, onPartial);
+      await saveFixture(name, { task: request.task, recordedAt: new Date().toISOString(), ...toFixtureBody(text) });
+      return text;
+    }
+
+    const fixture = (await loadFixture(name)) ?? (await loadFixture(`default-${request.task}`));
+    if (!fixture) {
+      throw new Error(`No fixture for ${request.task} (${name}); record one with LLM_FIXTURES=record`);
+    }
+    const text = fixture.json !== undefined ? JSON.stringify(fixture.json) : fixture.text ?? '';
+    if (onPartial) {
+      for (let chunk = 1; chunk <= REPLAY_CHUNKS; chunk++) {
+        await wait(REPLAY_CHUNK_DELAY_MS);
+        onPartial(text.slice(0, Math.ceil((text.length * chunk) / REPLAY_CHUNKS)));
+      }
+    }
+    return text;
+  },
+  generateImage: async (request) => {
+    const name = imageFixtureName(request);
+    if (recordFrom) {
+      const image = await recordFrom.generateImage(request);
+      await saveFixture(name, { task: 'image', recordedAt: new Date().toISOString(), image });
+      return image;
+    }
+    const fixture = await loadFixture(name);
+    return fixture?.image ?? placeholderImage(request.prompt);
+  }
+});
@@ -0,0 +1,64 @@
+import { JsonRequest, LlmProvider } from "../llmProvider.ts";
+
+// Backend route per stage (api_backend.py); the backend holds the key and picks the model
+const STAGE_ROUTES: Record<JsonRequest['stage'], string> = {
+  feasibility: '/api/feasibility',
+  generation: '/api/plan',
+  risk: '/api/risk'
+};
+
+const requestError = async (response: Response) => {
+  const detail = await response.text().catch(() => '');
+  return Object.assign(new Error(`Backend returned ${response.status}: ${detail.slice(0, 200)}`), { status: response.status });
+};
+
+const postJson = (url: string, body: unknown) =>
+  fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+/**
+ * Thin client for the backend's model routes. Generation streams from
+ * `/api/plan/stream` when a partial callback is given.
+ */
+export const createServerProvider = (): LlmProvider => ({
+  name: 'server',
+  generateJson: async (request, onPartial) => {
+    const stream = !!onPartial && request.stage === 'generation';
+    const response = await postJson(`${STAGE_ROUTES[request.stage]}${stream ? '/stream' : ''}`, {
+      task: request.task,
+      prompt: request.prompt,
+      systemInstruction: request.systemInstruction,
+      responseSchema: request.schema,
+      temperature: request.temperature
+    });
+    if (!response.ok) throw await requestError(response);
+    if (!stream) {
+      const data = await response.json();
+      return data.text ?? "";
+    }
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let accumulated = "";
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      accumulated += decoder.decode(value, { stream: true });
+      onPartial!(accumulated);
+    }
+    return accumulated;
+  },
+  generateImage: async (request) => {
+    const response = await postJson('/api/image', {
+      prompt: request.prompt,
+      aspectRatio: request.aspectRatio ?? '16:9',
+      title: request.title,
+      visualPrompt: request.visualPrompt
+    });
+    if (!response.ok) throw await requestError(response);
+    const data = await response.json();
+    return data.image ?? null;
+  }
+});
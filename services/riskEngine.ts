@@ -0,0 +1,197 @@
+import { Chronotype, ItineraryItem, ItineraryRiskItem, RiskSeverity, TravelMode, UserProfile } from "../types.ts";
+import { calculateTimeline, formatMinutesToTime, parseTimeToMinutes } from "./timeline.ts";
+
+export interface LocalRiskReport {
+  shouldWarn: boolean;
+  summary: string;
+  fatigueScore: number; // 0 to 100
+  totalActiveMinutes: number;
+  itemRisks: ItineraryRiskItem[];
+  suggestions: string[];
+}
+
+// Active minutes a traveler is comfortable with: pace 0 (Spartan) → 10h, pace 100 (Chill Cat) → 6h
+const comfortableActiveMinutes = (pace: number) => Math.round((10 - Math.min(100, Math.max(0, pace)) * 0.04) * 60);
+
+// Latest comfortable finish and earliest comfortable start per chronotype, in minutes after midnight
+const CHRONOTYPE_WINDOWS: Record<Chronotype, { earliestStart: number; latestEnd: number }> = {
+  [Chronotype.EARLY_BIRD]: { earliestStart: 6 * 60, latestEnd: 21 * 60 + 30 },
+  [Chronotype.FLOW]: { earliestStart: 7 * 60 + 30, latestEnd: 23 * 60 },
+  [Chronotype.NIGHT_OWL]: { earliestStart: 9 * 60 + 30, latestEnd: 24 * 60 + 30 }
+};
+
+const MEAL_WINDOWS = [
+  { name: 'lunch', from: 11 * 60, to: 15 * 60, needsDayFrom: 12 * 60, needsDayTo: 14 * 60 },
+  { name: 'dinner', from: 17 * 60 + 30, to: 21 * 60 + 30, needsDayFrom: 18 * 60, needsDayTo: 20 * 60 }
+];
+
+const LONG_LEG_MINUTES = 45;
+
+interface TimedItem {
+  item: ItineraryItem;
+  start: number;
+  end: number;
+}
+
+const SEVERITY_RANK: Record<RiskSeverity, number> = { low: 0, medium: 1, high: 2 };
+
+const toTimedItems = (items: ItineraryItem[], dayStart: string, travelMode?: TravelMode): TimedItem[] =>
+  calculateTimeline(items, dayStart, travelMode).items.flatMap(item => {
+    const start = parseTimeToMinutes(item.startTime);
+    if (start === null) return [];
+    // Keep the raw end so stops running past midnight stay comparable
+    return [{ item, start, end: start + (item.durationMinutes ?? 60) }];
+  });
+
+const risk = (item: ItineraryItem, severity: RiskSeverity, type: ItineraryRiskItem['type'], reason: string): ItineraryRiskItem => ({
+  itemId: item.id,
+  title: item.title,
+  severity,
+  reason,
+  type
+});
+
+const checkOpeningHours = (timed: TimedItem[]) =>
+  timed.flatMap(({ item, start, end }) => {
+    if (item.type === 'hotel' || item.type === 'transit') return [];
+    const open = parseTimeToMinutes(item.openTime);
+    const close = parseTimeToMinutes(item.closeTime);
+    const risks: ItineraryRiskItem[] = [];
+    if (open !== null && start < open) {
+      risks.push(risk(item, 'medium', 'closure', `Arrives at ${formatMinutesToTime(start)} but opens at ${formatMinutesToTime(open)}`));
+    }
+    // A close time before the open time means the venue runs past midnight
+    if (close !== null && (open === null || close > open) && end > close) {
+      risks.push(risk(item, 'high', 'closure', `Runs until ${formatMinutesToTime(end)}, past closing at ${formatMinutesToTime(close)}`));
+    }
+    return risks;
+  });
+
+const checkPinnedOverlaps = (timed: TimedItem[]) => {
+  const pinned = timed.filter(({ item }) => item.pinned).sort((a, b) => a.start - b.start);
+  const risks: ItineraryRiskItem[] = [];
+  pinned.forEach((current, idx) => {
+    const previous = pinned[idx - 1];
+    if (previous && current.start < previous.end) {
+      risks.push(risk(current.item, 'high', 'time_conflict', `Fixed time overlaps ${previous.item.title} by ${previous.end - current.start} min`));
+    }
+  });
+  // Flexible stops squeezed into a fixed slot are already flagged by the timeline
+  timed.forEach(({ item }) => {
+    const alreadyFlagged = risks.some(entry => entry.itemId === item.id);
+    if (item.pinned && !alreadyFlagged && item.conflictKinds?.includes('fixed_time_overrun')) {
+      const reasons = item.conflictReason?.split('; ') ?? [];
+      risks.push(risk(item, 'high', 'time_conflict', reasons[item.conflictKinds.indexOf('fixed_time_overrun')] ?? 'Previous stops run into this fixed time'));
+    }
+  });
+  return risks;
+};
+
+const checkDayLoad = (timed: TimedItem[], profile: UserProfile, totalActiveMinutes: number) => {
+  const limit = comfortableActiveMinutes(profile.pace);
+  const last = timed[timed.length - 1];
+  if (!last || totalActiveMinutes <= limit) return [];
+  const severity: RiskSeverity = totalActiveMinutes > limit * 1.25 ? 'high' : 'medium';
+  const hours = (minutes: number) => (minutes / 60).toFixed(1).replace(/\.0$/, '');
+  return [risk(last.item, severity, 'fatigue', `${hours(totalActiveMinutes)}h of activities against a comfortable ${hours(limit)}h for this pace`)];
+};
+
+const checkChronotype = (timed: TimedItem[], profile: UserProfile) => {
+  const comfort = CHRONOTYPE_WINDOWS[profile.chronotype] ?? CHRONOTYPE_WINDOWS[Chronotype.FLOW];
+  const risks: ItineraryRiskItem[] = [];
+  const first = timed.find(({ item }) => item.type !== 'hotel');
+  if (first && first.start < comfort.earliestStart) {
+    risks.push(risk(first.item, 'low', 'fatigue', `Starts at ${formatMinutesToTime(first.start)}, early for this traveler`));
+  }
+  timed.forEach(({ item, end }) => {
+    if (item.type === 'hotel' || end <= comfort.latestEnd) return;
+    const severity: RiskSeverity = end > comfort.latestEnd + 90 ? 'high' : 'medium';
+    risks.push(risk(item, severity, 'travel', `Ends at ${formatMinutesToTime(end)}; check the last train or taxi back`));
+  });
+  return risks;
+};
+
+const checkLongLegs = (timed: TimedItem[]) =>
+  timed.flatMap(({ item }) => {
+    const leg = item.travelBefore;
+    if (!leg || leg.minutes < LONG_LEG_MINUTES) return [];
+    const severity: RiskSeverity = leg.minutes >= LONG_LEG_MINUTES * 2 ? 'medium' : 'low';
+    return [risk(item, severity, 'travel', `${leg.minutes} min ${leg.mode} leg (${leg.distanceKm} km) to get here`)];
+  });
+
+const checkMeals = (timed: TimedItem[]) => {
+  if (timed.length === 0) return [];
+  const dayFrom = timed[0].start;
+  const dayTo = Math.max(...timed.map(({ end }) => end));
+  return MEAL_WINDOWS.flatMap(meal => {
+    if (dayFrom > meal.needsDayFrom || dayTo < meal.needsDayTo) return [];
+    const hasMeal = timed.some(({ item, start }) => item.type === 'food' && start >= meal.from && start <= meal.to);
+    if (hasMeal) return [];
+    // Attach the warning to whatever the traveler is doing mid-window
+    const midpoint = (meal.from + meal.to) / 2;
+    const anchor = timed.reduce((best, candidate) =>
+      Math.abs((candidate.start + candidate.end) / 2 - midpoint) < Math.abs((best.start + best.end) / 2 - midpoint) ? candidate : best
+    );
+    return [risk(anchor.item, 'medium', 'other', `No ${meal.name} stop between ${formatMinutesToTime(meal.from)} and ${formatMinutesToTime(meal.to)}`)];
+  });
+};
+
+const dedupeRisks = (risks: ItineraryRiskItem[]) => {
+  const byKey = new Map<string, ItineraryRiskItem>();
+  risks.forEach(entry => {
+    const key = `${entry.itemId}|${entry.type}|${entry.reason}`;
+    if (!byKey.has(key)) byKey.set(key, entry);
+  });
+  return Array.from(byKey.values());
+};
+
+const SUGGESTIONS: Record<ItineraryRiskItem['type'], string> = {
+  closure: 'Shift the flagged stops inside their opening hours or swap them for a nearby alternative.',
+  time_conflict: 'A fixed time is squeezed; shorten, move or unpin the stops around it.',
+  fatigue: 'Trim or shorten a stop, or start the day at a time that suits you better.',
+  travel: 'Plan the ride back before committing to a late finish.',
+  other: 'Leave room for a proper meal break.'
+};
+
+/**
+ * Rules-based review of one day: opening hours, colliding fixed times, day
+ * length against pace, chronotype comfort, long legs, meal windows and late
+ * finishes.
+ * Works offline and always returns the same findings for the same day.
+ */
+export const analyzeRisksLocally = (
+  profile: UserProfile,
+  dayStart: string,
+  items: ItineraryItem[],
+  travelMode?: TravelMode
+): LocalRiskReport => {
+  const timed = toTimedItems(items, dayStart, travelMode);
+  const totalActiveMinutes = timed.reduce((sum, { start, end }) => sum + (end - start), 0);
+  const itemRisks = dedupeRisks([
+    ...checkPinnedOverlaps(timed),
+    ...checkOpeningHours(timed),
+    ...checkDayLoad(timed, profile, totalActiveMinutes),
+    ...checkChronotype(timed, profile),
+    ...checkLongLegs(timed),
+    ...checkMeals(timed)
+  ]).sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+
+  const fatigueScore = Math.min(100, Math.round((totalActiveMinutes / comfortableActiveMinutes(profile.pace)) * 70));
+  const shouldWarn = itemRisks.some(entry => entry.severity !== 'low');
+  const suggestions = Array.from(new Set(itemRisks.filter(entry => entry.severity !== 'low').map(entry => SUGGESTIONS[entry.type])));
+  const highCount = itemRisks.filter(entry => entry.severity === 'high').length;
+  const summary = itemRisks.length === 0
+    ? 'The day fits opening hours, meals and your pace.'
+    : `${itemRisks.length} issue${itemRisks.length === 1 ? '' : 's'} found${highCount ? `, ${highCount} serious` : ''}: ${itemRisks[0].reason}.`;
+
+  return { shouldWarn, summary, fatigueScore, totalActiveMinutes, itemRisks, suggestions };
+};
+
+/**
+ * Local findings come first; AI findings are kept unless they repeat a rule
+ * already reported for the same stop.
+ */
+export const mergeRiskItems = (local: ItineraryRiskItem[], ai: ItineraryRiskItem[] = []) => [
+  ...local,
+  ...ai.filter(entry => !local.some(found => found.itemId === entry.itemId && found.type === entry.type))
+];
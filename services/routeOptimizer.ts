@@ -0,0 +1,159 @@
+import { ItineraryItem, TravelMode } from "../types.ts";
+import { calculateTimeline, parseTimeToMinutes, TRAVEL_BUFFER_MINUTES } from "./timeline.ts";
+
+export interface RouteMetrics {
+  travelMinutes: number;
+  distanceKm: number;
+  // Stops outside opening hours or meal windows, or pushing into a fixed time
+  windowViolations: number;
+}
+
+export interface RouteOptimization {
+  items: ItineraryItem[];
+  before: RouteMetrics;
+  after: RouteMetrics;
+  improved: boolean;
+}
+
+// Every violation costs this much on top of its size, so the solver never trades one for a shorter walk
+const VIOLATION_PENALTY_MINUTES = 120;
+// Up to this many movable stops every order is tried; beyond it, insertion plus 2-opt
+const EXACT_LIMIT = 7;
+
+const MEAL_WINDOWS = [
+  { from: 7 * 60, to: 10 * 60 + 30 },
+  { from: 11 * 60 + 30, to: 14 * 60 + 30 },
+  { from: 18 * 60, to: 21 * 60 }
+];
+
+/**
+ * Meal window a food stop belongs to, judged from where it sits now, so a
+ * lunch stays a lunch after reordering.
+ */
+const mealWindowFor = (item: ItineraryItem) => {
+  if (item.type !== 'food') return null;
+  const start = parseTimeToMinutes(item.startTime || item.time);
+  if (start === null) return null;
+  const distance = (meal: { from: number; to: number }) => start < meal.from ? meal.from - start : start > meal.to ? start - meal.to : 0;
+  return MEAL_WINDOWS.reduce((best, meal) => distance(meal) < distance(best) ? meal : best);
+};
+
+const evaluate = (items: ItineraryItem[], dayStart: string, travelMode: TravelMode, mealWindows: Map<string, { from: number; to: number }>) => {
+  const laidOut = calculateTimeline(items, dayStart, travelMode).items;
+  let travelMinutes = 0;
+  let distanceKm = 0;
+  let violations = 0;
+  let penalty = 0;
+  const violate = (size: number) => {
+    violations++;
+    penalty += VIOLATION_PENALTY_MINUTES + Math.max(0, size);
+  };
+
+  laidOut.forEach((item, idx) => {
+    if (idx > 0) {
+      travelMinutes += item.travelBefore?.minutes ?? TRAVEL_BUFFER_MINUTES;
+      distanceKm += item.travelBefore?.distanceKm ?? 0;
+    }
+    const start = parseTimeToMinutes(item.startTime) ?? 0;
+    const end = start + (item.durationMinutes ?? 60);
+    const open = parseTimeToMinutes(item.openTime);
+    const close = parseTimeToMinutes(item.closeTime);
+    if (open !== null && start < open) violate(open - start);
+    // A close time before the open time means the venue runs past midnight
+    if (close !== null && (open === null || close > open) && end > close) violate(end - close);
+    if (item.pinned && item.conflictKinds?.includes('fixed_time_overrun')) violate(0);
+    const meal = mealWindows.get(item.id);
+    if (meal && (start < meal.from || start > meal.to)) violate(start < meal.from ? meal.from - start : start - meal.to);
+  });
+
+  return {
+    cost: travelMinutes + penalty,
+    metrics: { travelMinutes, distanceKm: Math.round(distanceKm * 10) / 10, windowViolations: violations }
+  };
+};
+
+const permutations = <T,>(values: T[]): T[][] => {
+  if (values.length <= 1) return [values];
+  return values.flatMap((value, idx) =>
+    permutations([...values.slice(0, idx), ...values.slice(idx + 1)]).map(rest => [value, ...rest])
+  );
+};
+
+/**
+ * Reorders the floating stops of a day to cut travel time. Pinned stops keep
+ * their slot, a hotel at the start or end of the day stays there, and stops
+ * are scored against opening hours and meal windows using the same timeline
+ * the schedule shows. The original order is returned when nothing beats it.
+ */
+export const optimizeDayOrder = (items: ItineraryItem[], dayStart: string, travelMode: TravelMode): RouteOptimization => {
+  const isAnchor = (item: ItineraryItem, idx: number) =>
+    item.pinned || (item.type === 'hotel' && (idx === 0 || idx === items.length - 1));
+  const movable = items.filter((item, idx) => !isAnchor(item, idx));
+  const slots = items.map((item, idx) => isAnchor(item, idx) ? item : null);
+  const mealWindows = new Map<string, { from: number; to: number }>();
+  calculateTimeline(items, dayStart, travelMode).items.forEach(item => {
+    const meal = mealWindowFor(item);
+    if (meal) mealWindows.set(item.id, meal);
+  });
+
+  // Fills the free slots in order; a shorter order (while building) leaves the rest out
+  const assemble = (order: ItineraryItem[]) => {
+    let next = 0;
+    return slots.map(slot => slot ?? order[next++]).filter((item): item is ItineraryItem => item !== undefined);
+  };
+  const score = (order: ItineraryItem[]) => evaluate(assemble(order), dayStart, travelMode, mealWindows);
+
+  const original = score(movable);
+  let bestOrder = movable;
+  let bestCost = original.cost;
+  const consider = (order: ItineraryItem[]) => {
+    const { cost } = score(order);
+    if (cost < bestCost) {
+      bestOrder = order;
+      bestCost = cost;
+      return true;
+    }
+    return false;
+  };
+
+  if (movable.length > 1 && movable.length <= EXACT_LIMIT) {
+    permutations(movable).forEach(consider);
+  } else if (movable.length > EXACT_LIMIT) {
+    // Cheapest insertion builds a start, then 2-opt reversals until no move helps
+    const built: ItineraryItem[] = [];
+    movable.forEach(item => {
+      let bestAt = built.length;
+      let bestInsertCost = Infinity;
+      for (let at = 0; at <= built.length; at++) {
+        const candidate = [...built.slice(0, at), item, ...built.slice(at)];
+        const { cost } = score(candidate);
+        if (cost < bestInsertCost) {
+          bestInsertCost = cost;
+          bestAt = at;
+        }
+      }
+      built.splice(bestAt, 0, item);
+    });
+    consider(built);
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (let i = 0; i < bestOrder.length - 1 && !improved; i++) {
+        for (let j = i + 1; j < bestOrder.length && !improved; j++) {
+          const candidate = [...bestOrder.slice(0, i), ...bestOrder.slice(i, j + 1).reverse(), ...bestOrder.slice(j + 1)];
+          improved = consider(candidate);
+        }
+      }
+    }
+  }
+
+  const result = assemble(bestOrder);
+  const after = evaluate(result, dayStart, travelMode, mealWindows);
+  const improved = bestCost < original.cost;
+  return {
+    items: improved ? result : items,
+    before: original.metrics,
+    after: improved ? after.metrics : original.metrics,
+    improved
+  };
+};
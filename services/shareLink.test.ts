@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { BudgetType, Chronotype, SavedTrip } from '../types.ts';
+import { decodeSharedTrip, encodeSharedTrip } from './shareLink.ts';
+
+const trip: SavedTrip = {
+  id: 'trip-1',
+  name: 'Tokyo',
+  createdAt: 0,
+  updatedAt: 0,
+  profile: {
+    chronotype: Chronotype.FLOW,
+    pace: 50,
+    interests: ['Food', 'Culture'],
+    foodScale: 0.5,
+    foodTags: ['Local'],
+    budget: BudgetType.COST_EFFECTIVE
+  },
+  config: {
+    destination: 'Tokyo',
+    startDate: '2026-11-02',
+    endDate: '2026-11-03',
+    passengers: 2,
+    safetyToggles: { filterShredder: false, bbGuard: true, noQueueMode: false },
+    accommodation: 'Budget Hotel',
+    transport: 'Public Transit',
+    customNote: ''
+  },
+  result: {
+    itinerary: [{
+      date: '2026-11-02',
+      items: [{ id: 'a', time: '09:00', title: 'Senso-ji', description: '', visualPrompt: '', type: 'activity', location: { lat: 35.71, lng: 139.79 } }]
+    }],
+    summary: 'Two days in Tokyo',
+    survivalKit: {
+      essentialApps: [{ name: 'Suica', purpose: 'Transit card', icon: '🚇' }],
+      packingList: ['Umbrella'],
+      localTips: ['Carry cash'],
+      budgetEstimate: { currency: 'JPY', accommodation: '20000', food: '8000', transport: '2000', totalEstimated: '30000' }
+    },
+    timeZone: 'Asia/Tokyo'
+  },
+  dayStartTimes: {},
+  imageCache: {}
+};
+
+// Mirrors encodeSharedTrip, but for hand-made payloads
+const encodePayload = async (payload: unknown) => {
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const output = new Blob([json]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  const bytes = new Uint8Array(await new Response(output).arrayBuffer());
+  return `1.${btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`;
+};
+
+const validPayload = () => ({
+  v: 1,
+  profile: trip.profile,
+  config: trip.config,
+  itinerary: trip.result.itinerary,
+  summary: trip.result.summary,
+  survivalKit: trip.result.survivalKit,
+  timeZone: trip.result.timeZone,
+  dayStartTimes: {}
+});
+
+describe('decodeSharedTrip', () => {
+  it('round-trips an encoded trip', async () => {
+    const decoded = await decodeSharedTrip(await encodeSharedTrip(trip));
+    expect(decoded.profile).toEqual(trip.profile);
+    expect(decoded.config).toEqual(trip.config);
+    expect(decoded.result.itinerary[0].items[0].title).toBe('Senso-ji');
+    expect(decoded.result.survivalKit).toEqual(trip.result.survivalKit);
+  });
+
+  it('fills in a partial survival kit instead of handing it to the viewer', async () => {
+    const decoded = await decodeSharedTrip(await encodePayload({ ...validPayload(), survivalKit: { packingList: [] } }));
+    expect(decoded.result.survivalKit.essentialApps).toEqual([]);
+    expect(decoded.result.survivalKit.localTips).toEqual([]);
+    expect(decoded.result.survivalKit.budgetEstimate.currency).toBe('');
+  });
+
+  it.each([
+    ['a missing survival kit', { survivalKit: undefined }],
+    ['a missing profile', { profile: undefined }],
+    ['an unknown budget style', { profile: { ...trip.profile, budget: 'LAVISH' } }],
+    ['a non-numeric pace', { profile: { ...trip.profile, pace: '50' } }],
+    ['an unknown interest', { profile: { ...trip.profile, interests: ['<img>'] } }],
+    ['a numeric start date', { config: { ...trip.config, startDate: 20261102 } }],
+    ['missing safety toggles', { config: { ...trip.config, safetyToggles: undefined } }],
+    ['an unknown transport', { config: { ...trip.config, transport: 'Teleport' } }],
+    ['a malformed day date', { itinerary: [{ date: 'Monday', items: [] }] }],
+    ['a script url on a stop', { itinerary: [{ date: '2026-11-02', items: [{ ...trip.result.itinerary[0].items[0], url: 'javascript:alert(1)' }] }] }]
+  ])('rejects a link with %s', async (_label, override) => {
+    const encoded = await encodePayload({ ...validPayload(), ...override });
+    await expect(decodeSharedTrip(encoded)).rejects.toThrow('does not contain a readable trip');
+  });
+});
@@ -0,0 +1,221 @@
+import { BudgetType, Chronotype, DayPlan, FoodPreference, Interest, ItineraryItem, LocationStatus, SavedTrip, SurvivalKit, TripConfig, UserProfile } from "../types.ts";
+import { coerceSurvivalKit, validateDays } from "./validation.ts";
+
+// Bump when the payload shape changes; older versions stay decodable below
+const SHARE_VERSION = 1;
+const FRAGMENT_KEY = 'trip';
+
+interface SharePayloadV1 {
+  v: 1;
+  profile: UserProfile;
+  config: TripConfig;
+  itinerary: DayPlan[];
+  summary: string;
+  survivalKit: SurvivalKit;
+  timeZone?: string;
+  dayStartTimes: Record<string, string>;
+}
+
+// Fields that are recomputed on load or too heavy for a URL (inline images)
+const TRANSIENT_ITEM_FIELDS: (keyof ItineraryItem)[] = ['conflict', 'conflictReason', 'conflictKinds', 'durationMinutes', 'gapBeforeMinutes', 'travelBefore', 'imageUrl'];
+
+const stripItem = (item: ItineraryItem): ItineraryItem => {
+  const stripped = { ...item };
+  TRANSIENT_ITEM_FIELDS.forEach(field => delete stripped[field]);
+  if (item.imageUrl && !item.imageUrl.startsWith('data:')) stripped.imageUrl = item.imageUrl;
+  return stripped;
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) => {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+/**
+ * Encodes a trip into a URL fragment value (`<version>.<deflated base64url>`).
+ * Generated images are left out; the viewer sketches its own.
+ */
+export const encodeSharedTrip = async (trip: SavedTrip) => {
+  const payload: SharePayloadV1 = {
+    v: SHARE_VERSION,
+    profile: trip.profile,
+    config: trip.config,
+    itinerary: trip.result.itinerary.map(day => ({ ...day, items: day.items.map(stripItem) })),
+    summary: trip.result.summary,
+    survivalKit: trip.result.survivalKit,
+    timeZone: trip.result.timeZone,
+    dayStartTimes: trip.dayStartTimes
+  };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const compressed = await transform(json, new CompressionStream('deflate-raw'));
+  return `${SHARE_VERSION}.${toBase64Url(compressed)}`;
+};
+
+export const buildShareUrl = async (trip: SavedTrip) => {
+  const encoded = await encodeSharedTrip(trip);
+  return `${window.location.origin}${window.location.pathname}#${FRAGMENT_KEY}=${encoded}`;
+};
+
+// Share links carry untrusted data, so every item field is type-checked before it is rendered or saved
+const ITEM_TYPES: ItineraryItem['type'][] = ['hotel', 'food', 'activity', 'transit'];
+const LOCATION_STATUSES: LocationStatus[] = ['verified', 'corrected', 'review'];
+const OPTIONAL_ITEM_STRINGS = ['costEstimate', 'duration', 'openTime', 'closeTime', 'startTime', 'endTime', 'locationNote'] as const;
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+const isOptionalHttpUrl = (value: unknown) => value === undefined || (typeof value === 'string' && /^https?:\/\//i.test(value));
+
+const isOptionalLocation = (value: any) =>
+  value === undefined || (Number.isFinite(value?.lat) && Number.isFinite(value?.lng));
+
+const isShareItem = (item: any): item is ItineraryItem =>
+  typeof item?.id === 'string' &&
+  typeof item.time === 'string' &&
+  typeof item.title === 'string' &&
+  typeof item.description === 'string' &&
+  typeof item.visualPrompt === 'string' &&
+  ITEM_TYPES.includes(item.type) &&
+  OPTIONAL_ITEM_STRINGS.every(field => isOptionalString(item[field])) &&
+  isOptionalHttpUrl(item.url) &&
+  isOptionalHttpUrl(item.imageUrl) &&
+  isOptionalLocation(item.location) &&
+  isOptionalLocation(item.originalLocation) &&
+  (item.pinned === undefined || typeof item.pinned === 'boolean') &&
+  (item.locationStatus === undefined || LOCATION_STATUSES.includes(item.locationStatus));
+
+const isStringRecord = (value: unknown) =>
+  typeof value === 'object' && value !== null && Object.values(value).every(entry => typeof entry === 'string');
+
+const INTERESTS: Interest[] = ['Urban', 'Citywalk', 'Food', 'Culture', 'Nature', 'Shopping'];
+const FOOD_PREFERENCES: FoodPreference[] = ['Spicy', 'Sweet', 'Vegetarian', 'Local'];
+const ACCOMMODATIONS: TripConfig['accommodation'][] = ['Hostel', 'Budget Hotel', 'Luxury/Boutique'];
+const TRANSPORTS: TripConfig['transport'][] = ['Public Transit', 'Rental Car', 'Ride-hailing', 'Walk-Friendly'];
+
+const isListOf = <T,>(value: unknown, allowed: T[]) => Array.isArray(value) && value.every(entry => allowed.includes(entry));
+
+const isShareProfile = (profile: any): profile is UserProfile =>
+  Object.values(Chronotype).includes(profile?.chronotype) &&
+  Number.isFinite(profile.pace) &&
+  Number.isFinite(profile.foodScale) &&
+  isListOf(profile.interests, INTERESTS) &&
+  isListOf(profile.foodTags, FOOD_PREFERENCES) &&
+  Object.values(BudgetType).includes(profile.budget);
+
+const isShareConfig = (config: any): config is TripConfig =>
+  typeof config?.destination === 'string' &&
+  typeof config.startDate === 'string' &&
+  typeof config.endDate === 'string' &&
+  Number.isInteger(config.passengers) &&
+  ['filterShredder', 'bbGuard', 'noQueueMode'].every(toggle => typeof config.safetyToggles?.[toggle] === 'boolean') &&
+  ACCOMMODATIONS.includes(config.accommodation) &&
+  TRANSPORTS.includes(config.transport) &&
+  typeof config.customNote === 'string';
+
+/**
+ * Checks a decoded payload field by field and rebuilds the itinerary and kit
+ * through the same validation the model output gets. Returns null when any
+ * part is unusable, so a tampered link never reaches the viewer or the library.
+ */
+const parseSharePayloadV1 = (value: any): SharePayloadV1 | null => {
+  const shapeOk =
+    value?.v === 1 &&
+    isShareProfile(value.profile) &&
+    isShareConfig(value.config) &&
+    typeof value.summary === 'string' &&
+    isOptionalString(value.timeZone) &&
+    (value.dayStartTimes === undefined || isStringRecord(value.dayStartTimes)) &&
+    Array.isArray(value.itinerary) &&
+    value.itinerary.every((day: any) => Array.isArray(day?.items) && day.items.every(isShareItem));
+  if (!shapeOk) return null;
+
+  const errors: string[] = [];
+  const itinerary = validateDays(value.itinerary);
+  errors.push(...itinerary.errors);
+  const survivalKit = coerceSurvivalKit(value.survivalKit, errors);
+  if (errors.length > 0) return null;
+
+  return {
+    v: 1,
+    profile: value.profile,
+    config: value.config,
+    itinerary: itinerary.value,
+    summary: value.summary,
+    survivalKit,
+    timeZone: value.timeZone,
+    dayStartTimes: value.dayStartTimes ?? {}
+  };
+};
+
+/**
+ * Decodes a fragment value back into a trip. Throws when the link is
+ * truncated, corrupted or was made by a newer version of the app.
+ */
+export const decodeSharedTrip = async (encoded: string): Promise<SavedTrip> => {
+  const separator = encoded.indexOf('.');
+  const version = Number(encoded.slice(0, separator));
+  if (separator === -1 || !Number.isInteger(version)) {
+    throw new Error("Share link is malformed.");
+  }
+  if (version > SHARE_VERSION) {
+    throw new Error("Share link was created by a newer version of Journalin.");
+  }
+
+  let decoded: unknown;
+  try {
+    const decompressed = await transform(fromBase64Url(encoded.slice(separator + 1)), new DecompressionStream('deflate-raw'));
+    decoded = JSON.parse(new TextDecoder().decode(decompressed));
+  } catch {
+    throw new Error("Share link is damaged or incomplete.");
+  }
+  const payload = parseSharePayloadV1(decoded);
+  if (!payload) {
+    throw new Error("Share link does not contain a readable trip.");
+  }
+
+  const now = Date.now();
+  return {
+    id: `shared-${now}`,
+    name: payload.config.destination,
+    createdAt: now,
+    updatedAt: now,
+    profile: payload.profile,
+    config: payload.config,
+    result: {
+      itinerary: payload.itinerary,
+      summary: payload.summary,
+      survivalKit: payload.survivalKit,
+      timeZone: payload.timeZone
+    },
+    dayStartTimes: payload.dayStartTimes,
+    imageCache: {},
+    moodImage: null
+  };
+};
+
+/**
+ * Returns the encoded trip from the current location, if the page was opened
+ * from a share link.
+ */
+export const readShareFragment = () => {
+  const params = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  return params.get(FRAGMENT_KEY);
+};
+
+export const clearShareFragment = () => {
+  window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+};
@@ -0,0 +1,131 @@
+import { ItineraryItem, TimelineConflictKind, TravelMode } from "../types.ts";
+import { getLeg } from "./travelTime.ts";
+
+export const DEFAULT_DAY_START = '09:00';
+// Used between stops when no travel mode is given or a stop has no coordinates
+export const TRAVEL_BUFFER_MINUTES = 15;
+// Idle time before a fixed-time stop that is worth flagging to the traveler
+export const IDLE_GAP_WARNING_MINUTES = 90;
+
+export const parseTimeToMinutes = (rawTime?: string | null) => {
+  if (!rawTime) return null;
+  const cleaned = rawTime.trim().toLowerCase();
+  const match = cleaned.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return null;
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3];
+  if (meridiem) {
+    if (meridiem === 'pm' && hours < 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+export const formatMinutesToTime = (totalMinutes: number) => {
+  const normalized = ((totalMinutes % (24 * 60)) + (24 * 60)) % (24 * 60);
+  const hours = Math.floor(normalized / 60);
+  const minutes = normalized % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+};
+
+export const parseDurationMinutes = (raw?: string | null) => {
+  if (!raw) return null;
+  const cleaned = raw.toLowerCase();
+  const hourMatch = cleaned.match(/(\d+)\s*(h|hr|hrs|hour|hours|小时)/);
+  const minMatch = cleaned.match(/(\d+)\s*(m|min|mins|minute|minutes|分钟)/);
+  if (hourMatch) {
+    const hours = parseInt(hourMatch[1], 10);
+    const minutes = minMatch ? parseInt(minMatch[1], 10) : 0;
+    return hours * 60 + minutes;
+  }
+  if (minMatch) {
+    return parseInt(minMatch[1], 10);
+  }
+  const fallbackNumber = cleaned.match(/(\d+)/);
+  return fallbackNumber ? parseInt(fallbackNumber[1], 10) : null;
+};
+
+export const formatDuration = (minutes: number) => `${minutes} min`;
+
+export const buildTimelineSignature = (items: ItineraryItem[]) =>
+  items
+    .map(item => `${item.id}-${item.startTime || item.time}-${item.duration}-${item.pinned ? 'pin' : ''}`)
+    .join('|');
+
+/**
+ * Returns the fixed start/end of a pinned item in minutes, or null when the
+ * item floats or its stored times cannot be parsed.
+ */
+const getPinnedWindow = (item: ItineraryItem) => {
+  if (!item.pinned) return null;
+  const start = parseTimeToMinutes(item.startTime || item.time);
+  if (start === null) return null;
+  const end = parseTimeToMinutes(item.endTime);
+  const duration = end !== null && end > start ? end - start : parseDurationMinutes(item.duration) ?? 60;
+  return { start, duration };
+};
+
+/**
+ * Lays out a day. Floating items chain from the day start with a travel leg
+ * between stops (estimated from coordinates when a travel mode is given, a
+ * flat buffer otherwise); pinned items keep their own start/end and the chain
+ * resumes after them. Overlaps into a pinned slot, long idle gaps before one
+ * and closing-time overruns are reported as conflicts with a reason and a
+ * matching kind.
+ */
+export const calculateTimeline = (items: ItineraryItem[], dayStartTime: string, travelMode?: TravelMode) => {
+  const startMinutes = parseTimeToMinutes(dayStartTime) ?? parseTimeToMinutes(DEFAULT_DAY_START) ?? 9 * 60;
+  let cursor = startMinutes;
+  const updatedItems = items.map((item, idx) => {
+    const pinnedWindow = getPinnedWindow(item);
+    const durationMinutes = pinnedWindow?.duration ?? parseDurationMinutes(item.duration) ?? 60;
+    const reasons: string[] = [];
+    const kinds: TimelineConflictKind[] = [];
+    const flag = (kind: TimelineConflictKind, reason: string) => {
+      kinds.push(kind);
+      reasons.push(reason);
+    };
+    const travelBefore = idx > 0 && travelMode ? getLeg(items[idx - 1], item, travelMode) ?? undefined : undefined;
+    if (idx > 0) cursor += travelBefore?.minutes ?? TRAVEL_BUFFER_MINUTES;
+    let itemStart = cursor;
+    let gapBeforeMinutes = 0;
+
+    if (pinnedWindow) {
+      if (cursor > pinnedWindow.start && idx > 0) {
+        flag('fixed_time_overrun', `Previous stops run ${cursor - pinnedWindow.start} min into this fixed time`);
+      } else if (idx > 0) {
+        gapBeforeMinutes = pinnedWindow.start - cursor;
+        if (gapBeforeMinutes >= IDLE_GAP_WARNING_MINUTES) {
+          flag('idle_gap', `${gapBeforeMinutes} min idle gap before this fixed time`);
+        }
+      }
+      itemStart = pinnedWindow.start;
+    }
+
+    const itemEnd = itemStart + durationMinutes;
+    const closeMinutes = parseTimeToMinutes(item.closeTime);
+    if (closeMinutes !== null && itemEnd > closeMinutes) {
+      flag('after_closing', `Ends after closing time (${formatMinutesToTime(closeMinutes)})`);
+    }
+
+    const startTime = formatMinutesToTime(itemStart);
+    const endTime = formatMinutesToTime(itemEnd);
+    cursor = itemEnd;
+    return {
+      ...item,
+      startTime,
+      endTime,
+      time: startTime,
+      durationMinutes,
+      gapBeforeMinutes,
+      travelBefore,
+      conflict: reasons.length > 0,
+      conflictReason: reasons.length > 0 ? reasons.join('; ') : undefined,
+      conflictKinds: kinds.length > 0 ? kinds : undefined
+    };
+  });
+  const conflicts = updatedItems.filter(item => item.conflict).map(item => item.id);
+  return { items: updatedItems, conflicts };
+};
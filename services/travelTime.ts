@@ -0,0 +1,184 @@
+import { ItineraryItem, TravelLeg, TravelMode, TripConfig } from "../types.ts";
+
+type LatLng = { lat: number; lng: number };
+
+interface ModeProfile {
+  speedKmh: number;
+  // Straight-line distance is shorter than any real street route
+  detourFactor: number;
+  // Fixed time on top of moving: walking to the station and waiting, parking, pickup
+  overheadMinutes: number;
+}
+
+const MODE_PROFILES: Record<TravelMode, ModeProfile> = {
+  walk: { speedKmh: 4.5, detourFactor: 1.3, overheadMinutes: 0 },
+  transit: { speedKmh: 22, detourFactor: 1.3, overheadMinutes: 10 },
+  drive: { speedKmh: 28, detourFactor: 1.4, overheadMinutes: 8 },
+  ride: { speedKmh: 28, detourFactor: 1.4, overheadMinutes: 6 }
+};
+
+// Below this distance everybody walks, whatever the trip's transport choice
+const WALK_THRESHOLD_KM = 0.8;
+const MIN_LEG_MINUTES = 5;
+
+export const travelModeForTransport = (transport: TripConfig['transport'] | string): TravelMode => {
+  switch (transport) {
+    case 'Rental Car': return 'drive';
+    case 'Ride-hailing': return 'ride';
+    case 'Walk-Friendly': return 'walk';
+    default: return 'transit';
+  }
+};
+
+const hasCoordinates = (location?: LatLng): location is LatLng =>
+  !!location && Number.isFinite(location.lat) && Number.isFinite(location.lng) && (location.lat !== 0 || location.lng !== 0);
+
+export const haversineKm = (a: LatLng, b: LatLng) => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+};
+
+const roundLegMinutes = (minutes: number) => Math.max(MIN_LEG_MINUTES, Math.ceil(minutes / 5) * 5);
+
+const legModeFor = (distanceKm: number, mode: TravelMode): TravelMode =>
+  distanceKm <= WALK_THRESHOLD_KM ? 'walk' : mode;
+
+/**
+ * Straight-line estimate: haversine distance stretched by a detour factor,
+ * divided by the mode's typical city speed, plus its fixed overhead.
+ */
+export const estimateLeg = (from: LatLng, to: LatLng, mode: TravelMode): TravelLeg => {
+  const straightKm = haversineKm(from, to);
+  const legMode = legModeFor(straightKm, mode);
+  const profile = MODE_PROFILES[legMode];
+  const distanceKm = straightKm * profile.detourFactor;
+  return {
+    minutes: roundLegMinutes((distanceKm / profile.speedKmh) * 60 + profile.overheadMinutes),
+    distanceKm: Math.round(distanceKm * 10) / 10,
+    mode: legMode,
+    source: 'estimate'
+  };
+};
+
+/**
+ * A street-routing backend. Returning null means "no route for this mode",
+ * in which case the straight-line estimate is used.
+ */
+export interface RoutingProvider {
+  name: string;
+  // `geometry` is the street path as [lat, lng] pairs, when the backend provides one
+  route: (from: LatLng, to: LatLng, mode: TravelMode) => Promise<{ minutes: number; distanceKm: number; geometry?: [number, number][] } | null>;
+}
+
+// OSRM has no public transit profile; transit legs keep the estimate
+const OSRM_PROFILES: Partial<Record<TravelMode, string>> = { walk: 'foot', drive: 'driving', ride: 'driving' };
+
+/**
+ * Provider for any OSRM-compatible `/route/v1/{profile}` endpoint.
+ */
+export const createOsrmProvider = (baseUrl: string): RoutingProvider => ({
+  name: 'osrm',
+  route: async (from, to, mode) => {
+    const profile = OSRM_PROFILES[mode];
+    if (!profile) return null;
+    const url = `${baseUrl.replace(/\/$/, '')}/route/v1/${profile}/${from.lng},${from.lat};${to.lng},${to.lat}?overview=full&geometries=geojson`;
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const data = await response.json();
+    const route = data?.routes?.[0];
+    if (data?.code !== 'Ok' || !route) return null;
+    return {
+      minutes: route.duration / 60 + MODE_PROFILES[mode].overheadMinutes,
+      distanceKm: route.distance / 1000,
+      geometry: (route.geometry?.coordinates ?? []).map(([lng, lat]: [number, number]) => [lat, lng] as [number, number])
+    };
+  }
+});
+
+let routingProvider: RoutingProvider | null = process.env.ROUTING_URL ? createOsrmProvider(process.env.ROUTING_URL) : null;
+const routedLegs = new Map<string, TravelLeg>();
+const routedGeometries = new Map<string, [number, number][]>();
+// Legs the provider could not route are not asked for again this session
+const unroutableLegs = new Set<string>();
+const inflightLegs = new Map<string, Promise<boolean>>();
+
+export const setRoutingProvider = (provider: RoutingProvider | null) => {
+  routingProvider = provider;
+  routedLegs.clear();
+  routedGeometries.clear();
+  unroutableLegs.clear();
+};
+
+export const hasRoutingProvider = () => routingProvider !== null;
+
+const legKey = (from: LatLng, to: LatLng, mode: TravelMode) =>
+  `${mode}:${from.lat.toFixed(5)},${from.lng.toFixed(5)}>${to.lat.toFixed(5)},${to.lng.toFixed(5)}`;
+
+/**
+ * Leg between two stops, or null when either lacks coordinates. Routed
+ * results fetched earlier by refineDayLegs take precedence over the estimate.
+ */
+export const getLeg = (from: ItineraryItem, to: ItineraryItem, mode: TravelMode): TravelLeg | null => {
+  if (!hasCoordinates(from.location) || !hasCoordinates(to.location)) return null;
+  const estimate = estimateLeg(from.location, to.location, mode);
+  return routedLegs.get(legKey(from.location, to.location, estimate.mode)) ?? estimate;
+};
+
+/**
+ * Street path of a routed leg as [lat, lng] pairs, or null when only the
+ * straight-line estimate is known.
+ */
+export const getLegGeometry = (from: ItineraryItem, to: ItineraryItem, mode: TravelMode) => {
+  if (!hasCoordinates(from.location) || !hasCoordinates(to.location)) return null;
+  const legMode = estimateLeg(from.location, to.location, mode).mode;
+  return routedGeometries.get(legKey(from.location, to.location, legMode)) ?? null;
+};
+
+const routeLeg = async (provider: RoutingProvider, key: string, from: LatLng, to: LatLng, legMode: TravelMode) => {
+  try {
+    const routed = await provider.route(from, to, legMode);
+    if (!routed) {
+      unroutableLegs.add(key);
+      return false;
+    }
+    routedLegs.set(key, {
+      minutes: roundLegMinutes(routed.minutes),
+      distanceKm: Math.round(routed.distanceKm * 10) / 10,
+      mode: legMode,
+      source: 'routed'
+    });
+    if (routed.geometry && routed.geometry.length > 1) routedGeometries.set(key, routed.geometry);
+    return true;
+  } catch (error) {
+    unroutableLegs.add(key);
+    console.warn(`Routing via ${provider.name} failed, keeping estimate:`, error);
+    return false;
+  }
+};
+
+/**
+ * Fetches routed legs for consecutive stops that are not cached yet.
+ * Resolves to the number of new legs, so callers know whether to re-layout.
+ */
+export const refineDayLegs = async (items: ItineraryItem[], mode: TravelMode) => {
+  const provider = routingProvider;
+  if (!provider) return 0;
+  let added = 0;
+  for (let idx = 1; idx < items.length; idx++) {
+    const from = items[idx - 1].location;
+    const to = items[idx].location;
+    if (!hasCoordinates(from) || !hasCoordinates(to)) continue;
+    const legMode = estimateLeg(from, to, mode).mode;
+    const key = legKey(from, to, legMode);
+    if (routedLegs.has(key) || unroutableLegs.has(key)) continue;
+    // The map and the planner refine the same day; share one request per leg
+    const pending = inflightLegs.get(key) ?? routeLeg(provider, key, from, to, legMode);
+    inflightLegs.set(key, pending);
+    if (await pending) added++;
+    inflightLegs.delete(key);
+  }
+  return added;
+};
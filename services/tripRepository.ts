@@ -0,0 +1,108 @@
+import { SavedTrip, UserProfile } from "../types.ts";
+
+const DB_NAME = 'journalin';
+const DB_VERSION = 1;
+const TRIP_STORE = 'trips';
+const PROFILE_STORE = 'profile';
+const PROFILE_KEY = 'current';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(TRIP_STORE)) {
+        const store = db.createObjectStore(TRIP_STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(PROFILE_STORE)) {
+        db.createObjectStore(PROFILE_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    let result: T;
+    request.onsuccess = () => {
+      result = request.result;
+    };
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error ?? request.error);
+    tx.onabort = () => reject(tx.error ?? request.error);
+  });
+};
+
+export const createTripId = () => `trip-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+
+/**
+ * Returns every saved trip, most recently edited first.
+ */
+export const listTrips = async (): Promise<SavedTrip[]> => {
+  const trips = await runRequest<SavedTrip[]>(TRIP_STORE, 'readonly', store => store.getAll());
+  return trips.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getTrip = async (id: string): Promise<SavedTrip | null> => {
+  const trip = await runRequest<SavedTrip | undefined>(TRIP_STORE, 'readonly', store => store.get(id));
+  return trip ?? null;
+};
+
+/**
+ * Upserts a trip and stamps `updatedAt`. The stored copy is returned so
+ * callers can keep their timestamps in sync.
+ */
+export const saveTrip = async (trip: SavedTrip): Promise<SavedTrip> => {
+  const stored = { ...trip, updatedAt: Date.now() };
+  await runRequest(TRIP_STORE, 'readwrite', store => store.put(stored));
+  return stored;
+};
+
+export const deleteTrip = async (id: string): Promise<void> => {
+  await runRequest(TRIP_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const renameTrip = async (id: string, name: string): Promise<SavedTrip | null> => {
+  const trip = await getTrip(id);
+  if (!trip) return null;
+  return saveTrip({ ...trip, name });
+};
+
+export const duplicateTrip = async (id: string): Promise<SavedTrip | null> => {
+  const trip = await getTrip(id);
+  if (!trip) return null;
+  const now = Date.now();
+  return saveTrip({
+    ...trip,
+    id: createTripId(),
+    name: `${trip.name} (copy)`,
+    createdAt: now,
+    updatedAt: now
+  });
+};
+
+export const loadProfile = async (): Promise<UserProfile | null> => {
+  const profile = await runRequest<UserProfile | undefined>(PROFILE_STORE, 'readonly', store => store.get(PROFILE_KEY));
+  return profile ?? null;
+};
+
+export const saveProfile = async (profile: UserProfile): Promise<void> => {
+  await runRequest(PROFILE_STORE, 'readwrite', store => store.put(profile, PROFILE_KEY));
+};
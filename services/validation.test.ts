@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { coerceItemType, normalizeTime, parseAndValidate, validateDays, validateGenerationResult } from './validation.ts';
+
+describe('coerceItemType', () => {
+  it('maps synonyms onto stop types', () => {
+    expect(coerceItemType('Restaurant')).toBe('food');
+    expect(coerceItemType('Ramen lunch')).toBe('food');
+    expect(coerceItemType('check-in')).toBe('hotel');
+    expect(coerceItemType('Train')).toBe('transit');
+    expect(coerceItemType('Trains')).toBe('transit');
+    expect(coerceItemType('Museum')).toBe('activity');
+  });
+
+  it('only matches whole words', () => {
+    expect(coerceItemType('Embarkation tour')).toBe('activity');
+    expect(coerceItemType('staycation')).toBe('activity');
+    expect(coerceItemType('Bartending class')).toBe('activity');
+  });
+
+  it('falls back to activity for missing or odd values', () => {
+    expect(coerceItemType(undefined)).toBe('activity');
+    expect(coerceItemType(42)).toBe('activity');
+  });
+});
+
+describe('normalizeTime', () => {
+  it.each([
+    ['9:00 AM', '09:00'],
+    ['7pm', '19:00'],
+    ['0900', '09:00'],
+    ['21.30', '21:30'],
+    ['9h30', '09:30'],
+    ['24:00', '23:59']
+  ])('reads %s as %s', (raw, expected) => {
+    expect(normalizeTime(raw)).toBe(expected);
+  });
+
+  it('gives null for unreadable times', () => {
+    expect(normalizeTime('morning')).toBeNull();
+    expect(normalizeTime('')).toBeNull();
+    expect(normalizeTime(undefined)).toBeNull();
+  });
+});
+
+describe('validateDays', () => {
+  it('fills and de-duplicates ids across days', () => {
+    const { value, errors } = validateDays([
+      { date: '2026-11-02', items: [{ id: '1', title: 'Kiyomizu-dera' }, { title: 'Nishiki Market' }] },
+      { date: '2026-11-03', items: [{ id: '1', title: 'Fushimi Inari' }] }
+    ]);
+    expect(errors).toEqual([]);
+    const ids = value.flatMap(day => day.items.map(item => item.id));
+    expect(ids[0]).toBe('1');
+    expect(ids[1]).toBe('2026-11-02-2');
+    expect(new Set(ids).size).toBe(3);
+  });
+
+  it('drops untitled stops and badly dated days with an error each', () => {
+    const { value, errors } = validateDays([
+      { date: '2026-11-02', items: [{ title: 'Gion' }, { type: 'food' }] },
+      { date: 'Nov 3', items: [] }
+    ]);
+    expect(value).toHaveLength(1);
+    expect(value[0].items).toHaveLength(1);
+    expect(errors).toEqual([
+      'itinerary[0].items[1].title is missing',
+      'itinerary[1].date "Nov 3" is not YYYY-MM-DD'
+    ]);
+  });
+
+  it('coerces fields it can repair', () => {
+    const [day] = validateDays([{
+      date: '2026-11-02',
+      items: [{ title: 'Tea house', type: 'Cafe', time: '2pm', duration: 90, location: { lat: 0, lng: 0 }, openTime: 'late' }]
+    }]).value;
+    expect(day.items[0]).toMatchObject({ type: 'food', time: '14:00', duration: '90 min', description: '' });
+    expect(day.items[0].location).toBeUndefined();
+    expect(day.items[0].openTime).toBeUndefined();
+  });
+});
+
+describe('validateGenerationResult', () => {
+  it('accepts a complete plan and defaults the budget', () => {
+    const { value, errors } = validateGenerationResult({
+      summary: 'Kyoto',
+      itinerary: [{ date: '2026-11-02', items: [{ title: 'Gion' }] }],
+      survivalKit: { packingList: ['Umbrella'], budgetEstimate: { currency: 'JPY' } }
+    });
+    expect(errors).toEqual([]);
+    expect(value.survivalKit.budgetEstimate).toMatchObject({ currency: 'JPY', food: '—', totalEstimated: '—' });
+  });
+
+  it('reports an empty itinerary and a missing survival kit', () => {
+    expect(validateGenerationResult({ summary: 'x', itinerary: [] }).errors).toEqual([
+      'itinerary has no days',
+      'survivalKit is missing'
+    ]);
+    expect(validateGenerationResult('nope').errors[0]).toBe('response is not a JSON object');
+  });
+});
+
+describe('parseAndValidate', () => {
+  it('reports unparseable text as an error', () => {
+    const { errors } = parseAndValidate('{"itinerary": [', validateGenerationResult);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^response is not valid JSON/);
+  });
+});
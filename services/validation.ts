@@ -0,0 +1,265 @@
+import { DayPlan, GenerationResult, InquiryResult, ItineraryItem, ItineraryRiskItem, ItineraryRiskResult, RiskSeverity, RiskType, SurvivalKit } from "../types.ts";
+import { formatDuration, formatMinutesToTime, parseTimeToMinutes } from "./timeline.ts";
+
+/**
+ * A coerced value plus the problems coercion could not fix. An empty
+ * `errors` list means the value is safe to render.
+ */
+export interface ValidationResult<T> {
+  value: T;
+  errors: string[];
+}
+
+const ITEM_TYPE_SYNONYMS: Record<ItineraryItem['type'], string[]> = {
+  hotel: ['hotel', 'accommodation', 'lodging', 'stay', 'hostel', 'ryokan', 'check-in', 'check-out', 'checkin', 'checkout'],
+  food: ['food', 'restaurant', 'cafe', 'café', 'dining', 'meal', 'lunch', 'dinner', 'breakfast', 'bar', 'snack', 'market'],
+  transit: ['transit', 'transport', 'transfer', 'train', 'flight', 'bus', 'ferry', 'taxi', 'airport'],
+  activity: []
+};
+
+const RISK_SEVERITIES: RiskSeverity[] = ['low', 'medium', 'high'];
+const RISK_TYPES: RiskType[] = ['time_conflict', 'fatigue', 'travel', 'closure', 'other'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown, fallback = '') =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : fallback;
+
+const asStringList = (value: unknown) =>
+  Array.isArray(value) ? value.map(entry => asString(entry)).filter(Boolean) : [];
+
+// Whole words only (plural allowed), so "embarkation" is not a bar and "staycation" not a stay
+const ITEM_TYPE_PATTERNS = (Object.keys(ITEM_TYPE_SYNONYMS) as ItineraryItem['type'][]).map(type => ({
+  type,
+  patterns: ITEM_TYPE_SYNONYMS[type].map(synonym => new RegExp(`(^|[^\\p{L}])${synonym}s?($|[^\\p{L}])`, 'u'))
+}));
+
+export const coerceItemType = (raw: unknown): ItineraryItem['type'] => {
+  const value = asString(raw).toLowerCase();
+  return ITEM_TYPE_PATTERNS.find(({ patterns }) => patterns.some(pattern => pattern.test(value)))?.type ?? 'activity';
+};
+
+/**
+ * Brings "9:00 AM", "0900", "21.30" and "9h30" to "HH:MM"; midnight closings
+ * written as "24:00" become "23:59". Unreadable times give null.
+ */
+export const normalizeTime = (raw: unknown): string | null => {
+  const value = asString(raw).toLowerCase();
+  if (!value) return null;
+  if (/^24(:?00)?$/.test(value)) return '23:59';
+  const withColon = /^\d{3,4}$/.test(value)
+    ? `${value.slice(0, -2)}:${value.slice(-2)}`
+    : value.replace(/^(\d{1,2})[.h](\d{2})/, '$1:$2');
+  const minutes = parseTimeToMinutes(withColon);
+  return minutes === null ? null : formatMinutesToTime(minutes);
+};
+
+const coerceLocation = (raw: unknown) => {
+  if (!isObject(raw)) return undefined;
+  const lat = Number(raw.lat);
+  const lng = Number(raw.lng ?? raw.lon);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return undefined;
+  // (0,0) is the model's way of saying "unknown"
+  if (lat === 0 && lng === 0) return undefined;
+  return { lat, lng };
+};
+
+const coerceItem = (raw: unknown, path: string, fallbackId: string, errors: string[]): ItineraryItem | null => {
+  if (!isObject(raw)) {
+    errors.push(`${path} is not an object`);
+    return null;
+  }
+  const title = asString(raw.title);
+  if (!title) {
+    errors.push(`${path}.title is missing`);
+    return null;
+  }
+  const item: ItineraryItem = {
+    ...raw,
+    id: asString(raw.id) || fallbackId,
+    time: normalizeTime(raw.time) ?? '',
+    title,
+    description: asString(raw.description),
+    visualPrompt: asString(raw.visualPrompt),
+    type: coerceItemType(raw.type),
+    location: coerceLocation(raw.location)
+  };
+  (['openTime', 'closeTime', 'startTime', 'endTime'] as const).forEach(key => {
+    const normalized = normalizeTime(raw[key]);
+    if (normalized) item[key] = normalized;
+    else delete item[key];
+  });
+  if (typeof raw.duration === 'number' && raw.duration > 0) item.duration = formatDuration(Math.round(raw.duration));
+  else if (raw.duration !== undefined) item.duration = asString(raw.duration) || undefined;
+  if (raw.costEstimate !== undefined) item.costEstimate = asString(raw.costEstimate) || undefined;
+  return item;
+};
+
+/**
+ * Stops with titles, ids filled in and made unique within `seenIds` (models
+ * like to restart at "1" every day). Untitled stops are reported and dropped.
+ */
+export const validateItems = (
+  raw: unknown,
+  path: string,
+  idPrefix: string,
+  seenIds = new Set<string>()
+): ValidationResult<ItineraryItem[]> => {
+  if (!Array.isArray(raw)) return { value: [], errors: [`${path} is not a list`] };
+  const errors: string[] = [];
+  const items = raw.flatMap((entry: unknown, idx: number) => {
+    const item = coerceItem(entry, `${path}[${idx}]`, `${idPrefix}-${idx + 1}`, errors);
+    if (!item) return [];
+    if (seenIds.has(item.id)) item.id = `${idPrefix}-${idx + 1}-${item.id}`;
+    seenIds.add(item.id);
+    return [item];
+  });
+  return { value: items, errors };
+};
+
+export const validateDays = (raw: unknown, path = 'itinerary'): ValidationResult<DayPlan[]> => {
+  if (!Array.isArray(raw)) return { value: [], errors: [`${path} is not a list`] };
+  const errors: string[] = [];
+  const seenIds = new Set<string>();
+  const days = raw.flatMap((day: unknown, dayIdx): DayPlan[] => {
+    const dayPath = `${path}[${dayIdx}]`;
+    if (!isObject(day)) {
+      errors.push(`${dayPath} is not an object`);
+      return [];
+    }
+    const date = asString(day.date);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      errors.push(`${dayPath}.date "${date}" is not YYYY-MM-DD`);
+      return [];
+    }
+    const items = validateItems(day.items, `${dayPath}.items`, date, seenIds);
+    errors.push(...items.errors);
+    return [{ date, items: items.value }];
+  });
+  return { value: days, errors };
+};
+
+/**
+ * A regenerated day. The date is forced to the one asked for; an empty day
+ * counts as a failure.
+ */
+export const validateDayPlan = (raw: unknown, date: string): ValidationResult<DayPlan> => {
+  const items = validateItems(isObject(raw) ? raw.items : undefined, 'items', date);
+  const errors = [...items.errors];
+  if (items.value.length === 0 && errors.length === 0) errors.push('items is empty');
+  return { value: { date, items: items.value }, errors };
+};
+
+/**
+ * Replacement candidates; a few unusable ones are dropped quietly as long as
+ * at least one is left.
+ */
+export const validateAlternatives = (raw: unknown, idPrefix: string): ValidationResult<(ItineraryItem & { reason?: string })[]> => {
+  const items = validateItems(isObject(raw) ? raw.alternatives : undefined, 'alternatives', idPrefix);
+  return { value: items.value, errors: items.value.length > 0 ? [] : items.errors.length > 0 ? items.errors : ['alternatives is empty'] };
+};
+
+/**
+ * A survival kit with every list and budget line present; only a missing kit
+ * is reported, odd entries are dropped or defaulted.
+ */
+export const coerceSurvivalKit = (raw: unknown, errors: string[]): SurvivalKit => {
+  if (!isObject(raw)) errors.push('survivalKit is missing');
+  const kit = isObject(raw) ? raw : {};
+  const budget = isObject(kit.budgetEstimate) ? kit.budgetEstimate : {};
+  return {
+    essentialApps: (Array.isArray(kit.essentialApps) ? kit.essentialApps : [])
+      .filter(isObject)
+      .map(app => ({ name: asString(app.name), purpose: asString(app.purpose), icon: asString(app.icon, '📱') || '📱' }))
+      .filter(app => app.name),
+    packingList: asStringList(kit.packingList),
+    localTips: asStringList(kit.localTips),
+    budgetEstimate: {
+      currency: asString(budget.currency),
+      accommodation: asString(budget.accommodation, '—') || '—',
+      food: asString(budget.food, '—') || '—',
+      transport: asString(budget.transport, '—') || '—',
+      totalEstimated: asString(budget.totalEstimated, '—') || '—'
+    }
+  };
+};
+
+export const validateGenerationResult = (raw: unknown): ValidationResult<GenerationResult> => {
+  const data = isObject(raw) ? raw : {};
+  const errors: string[] = isObject(raw) ? [] : ['response is not a JSON object'];
+  const days = validateDays(data.itinerary);
+  errors.push(...days.errors);
+  if (days.value.length === 0 && days.errors.length === 0) errors.push('itinerary has no days');
+  const survivalKit = coerceSurvivalKit(data.survivalKit, errors);
+  return {
+    value: {
+      ...data,
+      itinerary: days.value,
+      summary: asString(data.summary),
+      survivalKit,
+      timeZone: asString(data.timeZone) || undefined
+    },
+    errors
+  };
+};
+
+export const validateInquiryResult = (raw: unknown): ValidationResult<InquiryResult> => {
+  if (!isObject(raw)) return { value: { needInquiry: false }, errors: ['response is not a JSON object'] };
+  const questions = (Array.isArray(raw.questions) ? raw.questions : [])
+    .filter(isObject)
+    .map((question, idx) => ({
+      id: asString(question.id) || `q${idx + 1}`,
+      question: asString(question.question),
+      options: asStringList(question.options)
+    }))
+    .filter(question => question.question);
+  // Asking with no usable question would leave the traveler stuck in the modal
+  const needInquiry = Boolean(raw.needInquiry) && questions.length > 0;
+  return {
+    value: needInquiry ? { needInquiry, reason: asString(raw.reason), questions } : { needInquiry: false },
+    errors: []
+  };
+};
+
+const coerceRiskItem = (raw: unknown): ItineraryRiskItem | null => {
+  if (!isObject(raw) || !asString(raw.itemId)) return null;
+  const severity = asString(raw.severity).toLowerCase() as RiskSeverity;
+  const type = asString(raw.type).toLowerCase() as RiskType;
+  return {
+    itemId: asString(raw.itemId),
+    title: asString(raw.title),
+    severity: RISK_SEVERITIES.includes(severity) ? severity : 'medium',
+    reason: asString(raw.reason),
+    type: RISK_TYPES.includes(type) ? type : 'other'
+  };
+};
+
+export const validateRiskResult = (raw: unknown): ValidationResult<ItineraryRiskResult> => {
+  if (!isObject(raw)) return { value: { shouldWarn: false, summary: '' }, errors: ['response is not a JSON object'] };
+  const score = Number(raw.fatigueScore);
+  return {
+    value: {
+      shouldWarn: Boolean(raw.shouldWarn),
+      summary: asString(raw.summary),
+      fatigueScore: Number.isFinite(score) ? Math.min(100, Math.max(0, Math.round(score))) : undefined,
+      itemRisks: (Array.isArray(raw.itemRisks) ? raw.itemRisks : []).map(coerceRiskItem).filter((entry): entry is ItineraryRiskItem => entry !== null),
+      suggestions: asStringList(raw.suggestions)
+    },
+    errors: []
+  };
+};
+
+/**
+ * Parses model text and runs a validator over it. Unparseable text is
+ * reported as an error like any other, so it can be repaired the same way.
+ */
+export const parseAndValidate = <T,>(text: string, validate: (raw: unknown) => ValidationResult<T>): ValidationResult<T> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error: any) {
+    return { ...validate(undefined), errors: [`response is not valid JSON (${error?.message ?? 'parse error'})`] };
+  }
+  return validate(raw);
+};
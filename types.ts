@@ -37,7 +37,7 @@ export interface TripConfig {
   passengers: number;
   safetyToggles: SafetyToggles;
   accommodation: 'Hostel' | 'Budget Hotel' | 'Luxury/Boutique';
-  transport: 'Public Transit' | 'Rental Car' | 'Ride-hailing';
+  transport: 'Public Transit' | 'Rental Car' | 'Ride-hailing' | 'Walk-Friendly';
   customNote: string;
 }
 
@@ -70,7 +70,32 @@ export interface ItineraryItem {
   startTime?: string;
   endTime?: string;
   conflict?: boolean;
+  conflictReason?: string;
+  // Machine-readable counterpart of conflictReason, in the same order
+  conflictKinds?: TimelineConflictKind[];
   durationMinutes?: number;
+  // Fixed-time stops (reservations, tours, trains) keep startTime/endTime instead of chaining
+  pinned?: boolean;
+  gapBeforeMinutes?: number;
+  // Estimated leg from the previous stop; absent for the first stop or without coordinates
+  travelBefore?: TravelLeg;
+  // Outcome of the geocoding check after generation; corrected stops keep the model's guess
+  locationStatus?: LocationStatus;
+  originalLocation?: { lat: number; lng: number };
+  locationNote?: string;
+}
+
+export type LocationStatus = 'verified' | 'corrected' | 'review';
+
+export type TravelMode = 'walk' | 'transit' | 'drive' | 'ride';
+
+export type TimelineConflictKind = 'fixed_time_overrun' | 'idle_gap' | 'after_closing';
+
+export interface TravelLeg {
+  minutes: number;
+  distanceKm: number;
+  mode: TravelMode;
+  source: 'estimate' | 'routed';
 }
 
 export interface DayPlan {
@@ -103,6 +128,7 @@ export interface GenerationResult {
   itinerary: DayPlan[];
   summary: string;
   survivalKit: SurvivalKit;
+  timeZone?: string; // IANA zone of the destination, e.g. "Asia/Tokyo"
   sources?: { uri: string; title: string }[];
 }
 
@@ -127,3 +153,41 @@ export interface ItineraryRiskResult {
   updatedItems?: ItineraryItem[];
   conflicts?: string[];
 }
+
+export interface SavedTrip {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  profile: UserProfile;
+  config: TripConfig;
+  result: GenerationResult;
+  dayStartTimes: Record<string, string>;
+  imageCache: Record<string, string>;
+  moodImage?: string | null;
+  // Set once the map tiles for the trip's area were saved for offline use
+  offlineMap?: { savedAt: number; tileCount: number };
+}
+
+export interface ImportedBooking {
+  date: string; // YYYY-MM-DD
+  item: ItineraryItem;
+  source: 'ics' | 'email';
+  // UTC instant of the start for zoned calendar times; `date`/`item` are re-derived from it once the trip's zone is known
+  startsAt?: number;
+}
+
+// Structured itinerary edits produced by the command interpreter.
+// `afterItemId: null` places the stop first; omitted appends (or sorts by startTime).
+export type EditOperation =
+  | {
+      op: 'insert';
+      date: string;
+      afterItemId?: string | null;
+      item: { title: string; type: ItineraryItem['type']; description?: string; duration?: string; startTime?: string };
+    }
+  | { op: 'move'; itemId: string; toDate?: string; afterItemId?: string | null }
+  | { op: 'delete'; itemId: string }
+  | { op: 'retime'; itemId: string; startTime?: string; durationMinutes?: number }
+  | { op: 'swapDays'; date: string; otherDate: string }
+  | { op: 'shiftDay'; date: string; minutes: number };
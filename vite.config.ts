@@ -1,18 +1,69 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const FIXTURE_DIR = path.resolve(__dirname, 'fixtures/llm');
+
+// Dev-server endpoints for the fixture LLM provider: GET replays a recorded response, POST records one.
+// Writing is only served in record mode, since the dev server listens on every interface.
+const llmFixtures = (recording: boolean): Plugin => ({
+  name: 'llm-fixtures',
+  configureServer(server) {
+    server.middlewares.use('/__fixtures/llm', (req, res) => {
+      const name = (req.url || '').replace(/^\//, '').replace(/\?.*$/, '');
+      if (!/^[\w-]+$/.test(name)) {
+        res.statusCode = 400;
+        res.end();
+        return;
+      }
+      const file = path.join(FIXTURE_DIR, `${name}.json`);
+      if (req.method === 'POST' && recording) {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          fs.mkdirSync(FIXTURE_DIR, { recursive: true });
+          fs.writeFileSync(file, body);
+          res.statusCode = 204;
+          res.end();
+        });
+        return;
+      }
+      if (req.method !== 'GET' && req.method !== 'HEAD') {
+        res.statusCode = 405;
+        res.end();
+        return;
+      }
+      if (!fs.existsSync(file)) {
+        res.statusCode = 404;
+        res.end();
+        return;
+      }
+      res.setHeader('Content-Type', 'application/json');
+      res.end(fs.readFileSync(file));
+    });
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': {
+            target: env.API_URL || 'http://localhost:8000',
+            changeOrigin: true,
+            // Added by the dev server, so the backend's token stays out of the bundle
+            headers: env.MODEL_API_TOKEN ? { 'X-Journalin-Token': env.MODEL_API_TOKEN } : undefined,
+          },
+        },
       },
-      plugins: [react()],
+      plugins: [react(), llmFixtures(env.LLM_FIXTURES === 'record')],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.ROUTING_URL': JSON.stringify(env.ROUTING_URL || ''),
+        'process.env.LLM_FIXTURES': JSON.stringify(env.LLM_FIXTURES || '')
       },
       resolve: {
         alias: {